@@ -0,0 +1,419 @@
+import crypto from 'node:crypto';
+import { Archive } from './archive.js';
+import { ScoredHour } from './forecast.js';
+import { getProfile } from './profiles.js';
+import { getSpot, DEFAULT_SPOT_ID } from './spots.js';
+import { HOUR_MS, MINUTE_MS } from './time.js';
+import { DEFAULT_RETRY, DeliveryResult, RetryOptions, deliverWebhook, generateSecret } from './webhooks.js';
+
+// Condition alerts: a rule matches when some upcoming forecast hour satisfies
+// all of its conditions, and its webhook is notified when it starts matching.
+
+export const ALERT_METRICS = [
+  'score',
+  'wave_height_ft',
+  'wave_period_sec',
+  'swell_height_ft',
+  'swell_period_sec',
+  'wind_speed_kts',
+  'tide_height_ft',
+] as const;
+export type AlertMetric = typeof ALERT_METRICS[number];
+
+export const ALERT_OPERATORS = ['>=', '>', '<=', '<'] as const;
+export type AlertOperator = typeof ALERT_OPERATORS[number];
+
+export interface AlertCondition {
+  metric: AlertMetric;
+  operator: AlertOperator;
+  value: number;
+}
+
+export interface AlertRule {
+  id: string;
+  spotId: string;
+  profileId: string | null; // null uses the spot's profile
+  webhookUrl: string;
+  secret: string;
+  conditions: AlertCondition[];
+  withinHours: number;
+  daylightOnly: boolean;
+  cooldownMinutes: number;
+  createdAt: string;
+}
+
+export interface AlertState {
+  matching: boolean;
+  lastEvaluatedAt: string | null;
+  lastNotifiedAt: string | null;
+  lastNotifiedHour: string | null; // First matching hour of the last notification
+  lastDelivery: DeliveryResult | null;
+}
+
+export const MAX_ALERT_WITHIN_HOURS = 48;
+const DEFAULT_WITHIN_HOURS = 12;
+const DEFAULT_COOLDOWN_MINUTES = 6 * 60;
+
+function metricValue(hour: ScoredHour, metric: AlertMetric): number | null {
+  const { surfData, result } = hour;
+  if (!surfData || !result) return null;
+
+  switch (metric) {
+    case 'score': return result.score;
+    case 'wave_height_ft': return surfData.waveHeight;
+    case 'wave_period_sec': return surfData.wavePeriod;
+    case 'swell_height_ft': return surfData.swell?.height ?? null;
+    case 'swell_period_sec': return surfData.swell?.period ?? null;
+    case 'wind_speed_kts': return surfData.windSpeed;
+    case 'tide_height_ft': return surfData.tideHeight ?? null;
+  }
+}
+
+function conditionHolds(hour: ScoredHour, condition: AlertCondition): boolean {
+  const value = metricValue(hour, condition.metric);
+  if (value === null) return false;
+
+  switch (condition.operator) {
+    case '>=': return value >= condition.value;
+    case '>': return value > condition.value;
+    case '<=': return value <= condition.value;
+    case '<': return value < condition.value;
+  }
+}
+
+// Hours from the one in progress to the end of the rule's horizon that
+// satisfy every condition. Hours a hazard makes unsafe never match, however
+// good the waves are.
+export function matchingHours(rule: AlertRule, hours: ScoredHour[], now: number): ScoredHour[] {
+  return hours.filter(hour => {
+    const timestamp = Date.parse(hour.time);
+    return timestamp > now - HOUR_MS && timestamp < now + rule.withinHours * HOUR_MS &&
+      (!rule.daylightOnly || hour.daylight) &&
+      hour.safety?.safe !== false &&
+      rule.conditions.every(condition => conditionHolds(hour, condition));
+  });
+}
+
+export interface AlertPayload {
+  event: 'alert.matched';
+  alert_id: string;
+  spot: string;
+  triggered_at: string;
+  conditions: AlertCondition[];
+  within_hours: number;
+  matching_hours: number;
+  first_match: {
+    time: string;
+    score: number | null;
+    rating: string | null;
+    wave_height_ft: number | null;
+    wave_period_sec: number | null;
+    wind_speed_kts: number | null;
+    tide_state: string | null;
+  };
+}
+
+function buildPayload(rule: AlertRule, matches: ScoredHour[], now: number): AlertPayload {
+  const first = matches[0];
+  const round1 = (value: number | undefined) => value === undefined ? null : Math.round(value * 10) / 10;
+
+  return {
+    event: 'alert.matched',
+    alert_id: rule.id,
+    spot: rule.spotId,
+    triggered_at: new Date(now).toISOString(),
+    conditions: rule.conditions,
+    within_hours: rule.withinHours,
+    matching_hours: matches.length,
+    first_match: {
+      time: first.time,
+      score: first.result?.score ?? null,
+      rating: first.result?.rating ?? null,
+      wave_height_ft: round1(first.surfData?.waveHeight),
+      wave_period_sec: round1(first.surfData?.wavePeriod),
+      wind_speed_kts: round1(first.surfData?.windSpeed),
+      tide_state: first.surfData?.tide ?? null,
+    },
+  };
+}
+
+// Re-evaluate a rule against fresh forecast hours. A notification is due only
+// when the rule goes from not matching to matching, outside its cooldown, and
+// for a different first matching hour than the last notification (so a
+// forecast that flickers in and out doesn't re-send the same alert).
+export function evaluateAlert(
+  rule: AlertRule,
+  state: AlertState,
+  hours: ScoredHour[],
+  now: number
+): { state: AlertState; payload: AlertPayload | null } {
+  const matches = matchingHours(rule, hours, now);
+  const matching = matches.length > 0;
+  const evaluated = { ...state, matching, lastEvaluatedAt: new Date(now).toISOString() };
+
+  const startsMatching = matching && !state.matching;
+  const inCooldown = state.lastNotifiedAt !== null &&
+    now - Date.parse(state.lastNotifiedAt) < rule.cooldownMinutes * MINUTE_MS;
+  const duplicate = matching && state.lastNotifiedHour === matches[0].time;
+
+  if (!startsMatching || inCooldown || duplicate) {
+    return { state: evaluated, payload: null };
+  }
+
+  return {
+    state: { ...evaluated, lastNotifiedAt: new Date(now).toISOString(), lastNotifiedHour: matches[0].time },
+    payload: buildPayload(rule, matches, now),
+  };
+}
+
+// A POST /alerts body, validated
+export interface AlertRequest {
+  spotId: string;
+  profileId: string | null;
+  webhookUrl: string;
+  conditions: AlertCondition[];
+  withinHours: number;
+  daylightOnly: boolean;
+  cooldownMinutes: number;
+}
+
+const isMetric = (value: unknown): value is AlertMetric => (ALERT_METRICS as readonly unknown[]).includes(value);
+const isOperator = (value: unknown): value is AlertOperator => (ALERT_OPERATORS as readonly unknown[]).includes(value);
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Validate a POST /alerts body into a request, or list what is wrong with it.
+// Webhooks must be https unless `allowLocal` (see TargetOptions); the address
+// they resolve to is checked separately with checkWebhookTarget.
+export function parseAlertRequest(body: unknown, allowLocal = false): { request: AlertRequest | null; errors: string[] } {
+  if (!isObject(body)) {
+    return { request: null, errors: ['Request body must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const { spot, profile, webhook_url, within_hours, daylight_only, cooldown_minutes } = body;
+  if (spot !== undefined && (typeof spot !== 'string' || !getSpot(spot))) {
+    errors.push(`spot "${spot}" is not a known spot id`);
+  }
+  if (profile !== undefined && (typeof profile !== 'string' || !getProfile(profile))) {
+    errors.push(`profile "${profile}" is not a known scoring profile`);
+  }
+
+  let url: URL | null = null;
+  try {
+    url = typeof webhook_url === 'string' ? new URL(webhook_url) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== 'https:' && !(allowLocal && url.protocol === 'http:'))) {
+    errors.push(allowLocal ? 'webhook_url must be an http(s) URL' : 'webhook_url must be an https URL');
+  }
+
+  const conditions: AlertCondition[] = [];
+  if (!Array.isArray(body.conditions) || body.conditions.length === 0) {
+    errors.push('conditions must be a non-empty list');
+  } else {
+    body.conditions.forEach((condition: unknown, i: number) => {
+      const { metric, operator, value } = isObject(condition) ? condition : {} as Record<string, unknown>;
+      if (!isMetric(metric)) {
+        errors.push(`conditions[${i}].metric must be one of ${ALERT_METRICS.join(', ')}`);
+      }
+      if (!isOperator(operator)) {
+        errors.push(`conditions[${i}].operator must be one of ${ALERT_OPERATORS.join(' ')}`);
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`conditions[${i}].value must be a number`);
+      }
+      if (isMetric(metric) && isOperator(operator) && typeof value === 'number') {
+        conditions.push({ metric, operator, value });
+      }
+    });
+  }
+
+  if (within_hours !== undefined &&
+    (typeof within_hours !== 'number' || !Number.isInteger(within_hours) || within_hours < 1 || within_hours > MAX_ALERT_WITHIN_HOURS)) {
+    errors.push(`within_hours must be a whole number from 1 to ${MAX_ALERT_WITHIN_HOURS}`);
+  }
+  if (daylight_only !== undefined && typeof daylight_only !== 'boolean') {
+    errors.push('daylight_only must be true or false');
+  }
+  if (cooldown_minutes !== undefined &&
+    (typeof cooldown_minutes !== 'number' || !Number.isInteger(cooldown_minutes) || cooldown_minutes < 0)) {
+    errors.push('cooldown_minutes must be a non-negative whole number');
+  }
+
+  if (errors.length > 0) return { request: null, errors };
+  return {
+    request: {
+      spotId: (spot as string | undefined) ?? DEFAULT_SPOT_ID,
+      profileId: (profile as string | undefined) ?? null,
+      webhookUrl: webhook_url as string,
+      conditions,
+      withinHours: (within_hours as number | undefined) ?? DEFAULT_WITHIN_HOURS,
+      daylightOnly: (daylight_only as boolean | undefined) ?? true,
+      cooldownMinutes: (cooldown_minutes as number | undefined) ?? DEFAULT_COOLDOWN_MINUTES,
+    },
+    errors,
+  };
+}
+
+// Rules and their states, kept in the archive as created, notified and
+// deleted events so they survive restarts
+const rules = new Map<string, AlertRule>();
+const states = new Map<string, AlertState>();
+
+const initialState = (): AlertState =>
+  ({ matching: false, lastEvaluatedAt: null, lastNotifiedAt: null, lastNotifiedHour: null, lastDelivery: null });
+
+// Create, archive and register a rule from a validated request
+export async function createAlertRule(archive: Archive, request: AlertRequest, now: number = Date.now()): Promise<AlertRule> {
+  const rule: AlertRule = {
+    id: crypto.randomUUID(),
+    ...request,
+    secret: generateSecret(),
+    createdAt: new Date(now).toISOString(),
+  };
+
+  await archive.recordAlertEvent({ type: 'created', at: now, rule });
+  rules.set(rule.id, rule);
+  states.set(rule.id, initialState());
+  return rule;
+}
+
+// Register the archived rules that haven't been deleted, with the time and
+// hour of their last notification so cooldowns carry over a restart
+export function restoreAlertRules(archive: Archive): number {
+  const events = archive.alertEvents().sort((a, b) => a.at - b.at);
+  for (const event of events) {
+    if (event.type === 'created') {
+      rules.set(event.rule.id, event.rule);
+      states.set(event.rule.id, initialState());
+    } else if (event.type === 'deleted') {
+      rules.delete(event.alertId);
+      states.delete(event.alertId);
+    } else {
+      const state = states.get(event.alertId);
+      if (state) {
+        states.set(event.alertId, { ...state, lastNotifiedAt: new Date(event.at).toISOString(), lastNotifiedHour: event.hour });
+      }
+    }
+  }
+  return rules.size;
+}
+
+export function getAlertRule(id: string): AlertRule | undefined {
+  return rules.get(id);
+}
+
+export function getAlertState(id: string): AlertState | undefined {
+  return states.get(id);
+}
+
+export function listAlertRules(): AlertRule[] {
+  return Array.from(rules.values());
+}
+
+export async function deleteAlertRule(archive: Archive, id: string, now: number = Date.now()): Promise<boolean> {
+  if (!rules.has(id)) return false;
+  await archive.recordAlertEvent({ type: 'deleted', at: now, alertId: id });
+  states.delete(id);
+  return rules.delete(id);
+}
+
+export interface AlertSchedulerOptions {
+  intervalMs: number;
+  // Scored forecast hours for a spot, with the given profile (null for the spot's own)
+  loadHours: (spotId: string, profileId: string | null) => Promise<ScoredHour[]>;
+  archive: Archive;
+  retry?: RetryOptions;
+  allowLocalWebhooks?: boolean; // See TargetOptions
+}
+
+export interface AlertScheduler {
+  runOnce: () => Promise<void>;
+  stop: () => void;
+}
+
+// Re-evaluate every rule on start and then on each refresh. Forecasts are
+// loaded once per spot/profile pair, and a spot whose data can't be loaded is
+// skipped until the next refresh rather than being treated as not matching.
+// A rule only counts as notified (and starts its cooldown) once its webhook
+// was delivered; after a failed delivery it is retried on the next refresh.
+export function startAlertScheduler(options: AlertSchedulerOptions): AlertScheduler {
+  let inFlight: Promise<void> | null = null;
+
+  const notify = async (rule: AlertRule, state: AlertState, evaluation: { state: AlertState; payload: AlertPayload }) => {
+    console.log(`🔔 Alert ${rule.id} started matching, notifying ${rule.webhookUrl}`);
+    const delivery = await deliverWebhook(rule.webhookUrl, rule.secret, evaluation.payload, options.retry ?? DEFAULT_RETRY, {
+      allowLocal: options.allowLocalWebhooks,
+    });
+    if (!states.has(rule.id)) return; // Deleted while delivering
+
+    if (!delivery.delivered) {
+      console.error(`🔔 ❌ Alert ${rule.id} delivery failed after ${delivery.attempts} attempts: ${delivery.error}`);
+      states.set(rule.id, { ...state, lastEvaluatedAt: evaluation.state.lastEvaluatedAt, lastDelivery: delivery });
+      return;
+    }
+
+    const notified = { ...evaluation.state, lastDelivery: delivery };
+    states.set(rule.id, notified);
+    try {
+      await options.archive.recordAlertEvent({
+        type: 'notified',
+        at: Date.parse(notified.lastNotifiedAt!),
+        alertId: rule.id,
+        hour: notified.lastNotifiedHour!,
+      });
+    } catch (error) {
+      console.error(`🗄️ Failed to archive the notification for alert ${rule.id}:`, error);
+    }
+  };
+
+  const refresh = async () => {
+    const groups = new Map<string, AlertRule[]>();
+    for (const rule of rules.values()) {
+      const key = `${rule.spotId}|${rule.profileId ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), rule]);
+    }
+
+    await Promise.all(Array.from(groups.values()).map(async group => {
+      const { spotId, profileId } = group[0];
+      let hours: ScoredHour[];
+      try {
+        hours = await options.loadHours(spotId, profileId);
+      } catch (error) {
+        console.error(`🔔 Skipping alerts for ${spotId}, forecast unavailable:`, error instanceof Error ? error.message : error);
+        return;
+      }
+
+      await Promise.all(group.map(async rule => {
+        const state = states.get(rule.id);
+        if (!state) return; // Deleted since the refresh started
+
+        const evaluation = evaluateAlert(rule, state, hours, Date.now());
+        if (evaluation.payload) {
+          await notify(rule, state, { state: evaluation.state, payload: evaluation.payload });
+        } else {
+          states.set(rule.id, evaluation.state);
+        }
+      }));
+    }));
+  };
+
+  // A slow refresh (e.g. webhook retries) may still be going; callers wait
+  // for it rather than starting another
+  const runOnce = () => {
+    inFlight ??= refresh().finally(() => {
+      inFlight = null;
+    });
+    return inFlight;
+  };
+
+  const run = () => runOnce().catch(error => console.error('🔔 Alert refresh failed:', error));
+  const timer = setInterval(run, options.intervalMs);
+  run();
+
+  return {
+    runOnce,
+    stop: () => clearInterval(timer),
+  };
+}
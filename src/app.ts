@@ -0,0 +1,1224 @@
+import crypto from 'node:crypto';
+import express, { Express, Request, Response } from 'express';
+import cors from 'cors';
+import { AlertRule, createAlertRule, deleteAlertRule, getAlertRule, getAlertState, listAlertRules, parseAlertRequest } from './alerts.js';
+import { CacheInfo, cached, cacheInfo } from './cache.js';
+import { CalibrationReport, MIN_CALIBRATION_SESSIONS, calibrate } from './calibration.js';
+import { ConditionsDependencies, InsufficientDataError, SpotConditions, cachedBuoyText, fetchSpotConditions } from './conditions.js';
+import { ScoredHour, marineComponent, scoreHourlyForecasts, upcomingHours, getConditionsDuration } from './forecast.js';
+import { GearRecommendation, recommendGear } from './gear.js';
+import { estimateBreakingHeight } from './nearshore.js';
+import { parseSpectralFile } from './ndbc.js';
+import { NOWCAST_HALF_LIFE_HOURS, NOWCAST_HORIZON_HOURS, NowcastBias } from './nowcast.js';
+import { DEFAULT_PROFILE, DEFAULT_PROFILE_ID, DEFAULT_WEIGHTS, ScoringProfile, getProfile, listProfiles, spotProfile, switchSpotProfile } from './profiles.js';
+import { PROVENANCE_FIELDS, Provenance, ageMinutes, assessConfidence, discountDefaultedInputs } from './provenance.js';
+import { HazardType, SafetyAssessment, applySafety, assessSafety } from './safety.js';
+import { SurfData, SurfabilityResult, ScoreFactor, WaveComponent, calculateSurfability } from './scoring.js';
+import { JoinedSession, archivedSurfData, createSession, loadSessions, parseSessionRequest } from './sessions.js';
+import { SKILL_LEVELS, SkillLevel, applySkill, isSkillLevel } from './skills.js';
+import { Spot, spots, getSpot, getDefaultSpot } from './spots.js';
+import { sunTimes } from './sun.js';
+import { buildTideCurve } from './tides.js';
+import { DAY_MS, HOUR_MS, MINUTE_MS, formatLocalTime, localDateString, startOfLocalDay } from './time.js';
+import { SeriesTrend, analyzeBuoyTrend } from './trend.js';
+import { VerificationReport, buildSpotVerification } from './verification.js';
+import { DEFAULT_VOCABULARY, Phrasing, VOCABULARY_PACKS, VocabularyPack, getVocabulary, phraseSeed, vocabularyForLanguage, vocabularyLanguages } from './vocabulary.js';
+import { checkWebhookTarget } from './webhooks.js';
+import { WindEvent, findWindEvents, windComponents } from './wind.js';
+import { SurfWindow, findBestWindows } from './windows.js';
+
+// The HTTP API. Everything it reads from the outside world comes in through
+// its dependencies, so tests can run it against recorded upstream responses.
+
+export interface AppDependencies extends ConditionsDependencies {
+  // The verification job's latest report for a spot, if it has run
+  latestVerification?: (spotId: string) => VerificationReport | undefined;
+  // Accept http webhooks on local and private addresses, for testing alerts
+  allowLocalWebhooks?: boolean;
+  // Bearer token for operator endpoints (listing every alert, switching a
+  // spot's scoring profile); those endpoints are refused when it isn't set
+  operatorToken?: string;
+}
+
+// CORS configuration
+const corsOptions = {
+  origin: [
+    'https://localhost:8444',
+    'http://localhost:8444',
+    'https://localhost:3000',
+    'http://localhost:3000',
+    'https://127.0.0.1:8444',
+    'http://127.0.0.1:8444',
+    'https://yso00ok0wsgg4o80k4o0s0o0.mttwhlly.cc', // Your frontend
+    'https://c0cgocok00o40c48c40k8g04.mttwhlly.cc', // Your API
+  ],
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  allowedHeaders: [
+    'Content-Type', 
+    'Accept',
+    'Authorization',
+    'X-Requested-With',
+    'Origin',
+    'Cache-Control',
+    'Pragma',
+    'Expires'
+  ],
+  credentials: true,
+  optionsSuccessStatus: 200,
+  exposedHeaders: ['X-SW-Source', 'Age', 'X-Cache'],
+  maxAge: 86400 // Cache preflight for 24 hours
+};
+
+// Pick the scoring profile for a request: ?profile= wins over the spot's own profile
+function resolveProfile(spot: Spot, req: Request, res: Response): ScoringProfile | null {
+  if (typeof req.query.profile === 'string') {
+    const requested = getProfile(req.query.profile);
+    if (!requested) {
+      res.status(400).json({
+        error: 'Unknown scoring profile',
+        message: `No scoring profile with id "${req.query.profile}". See /profiles for available profiles.`
+      });
+      return null;
+    }
+    return requested;
+  }
+
+  return spotProfile(spot);
+}
+
+// The `?skill=` level applied to `profile`: undefined without one, and null
+// after answering 400 for an unknown level
+function resolveSkill(profile: ScoringProfile, req: Request, res: Response): { level: SkillLevel; profile: ScoringProfile } | null | undefined {
+  if (req.query.skill === undefined) return undefined;
+  if (typeof req.query.skill !== 'string' || !isSkillLevel(req.query.skill)) {
+    res.status(400).json({
+      error: 'Unknown skill level',
+      message: `skill must be one of ${Object.keys(SKILL_LEVELS).join(', ')}`
+    });
+    return null;
+  }
+  return { level: req.query.skill, profile: applySkill(profile, req.query.skill) };
+}
+
+// The vocabulary pack named by ?vocabulary=, otherwise the best match for
+// Accept-Language. Sends a 400 and returns null for an unknown pack.
+function resolveVocabulary(req: Request, res: Response): VocabularyPack | null {
+  if (req.query.vocabulary === undefined) {
+    const language = req.acceptsLanguages(...vocabularyLanguages());
+    return language ? vocabularyForLanguage(language) : DEFAULT_VOCABULARY;
+  }
+  const vocabulary = typeof req.query.vocabulary === 'string' ? getVocabulary(req.query.vocabulary) : undefined;
+  if (!vocabulary) {
+    res.status(400).json({
+      error: 'Unknown vocabulary',
+      message: `vocabulary must be one of ${Object.keys(VOCABULARY_PACKS).join(', ')}`
+    });
+    return null;
+  }
+  return vocabulary;
+}
+
+// Phrasing for a response: the same spot and hour always get the same phrases
+function spotPhrasing(spot: Spot, vocabulary: VocabularyPack): Phrasing {
+  return { vocabulary, seed: phraseSeed(spot.id, Date.now()) };
+}
+
+// Phrased responses depend on Accept-Language. Only the fun ratings and the
+// flat-day message come from the pack, and every other message in the body is
+// English, so English is the language they declare whichever pack was picked.
+function setLanguageHeaders(res: Response) {
+  res.set('Content-Language', 'en');
+  res.vary('Accept-Language');
+}
+
+// The request's `Authorization: Bearer <token>`, if it has one
+function bearerToken(req: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') ?? '');
+  return match ? match[1] : null;
+}
+
+// Compared through their digests, which have the same length, in constant time
+function tokenMatches(token: string | null, expected: string | undefined): boolean {
+  if (token === null || !expected) return false;
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(token), digest(expected));
+}
+
+const isOperator = (deps: AppDependencies, req: Request) => tokenMatches(bearerToken(req), deps.operatorToken);
+
+// Sends a 401 and returns false unless the request carries the operator token
+function requireOperator(deps: AppDependencies, req: Request, res: Response): boolean {
+  if (isOperator(deps, req)) return true;
+  res.status(401).json({
+    error: 'Unauthorized',
+    message: deps.operatorToken
+      ? 'This endpoint needs the operator token: Authorization: Bearer <OPERATOR_TOKEN>'
+      : 'This endpoint is disabled until OPERATOR_TOKEN is set'
+  });
+  return false;
+}
+
+// The alert rule named in the path, if the request carries its secret or the
+// operator token. Sends a 404 or 401 and returns null otherwise.
+function resolveAlertRule(deps: AppDependencies, req: Request, res: Response): AlertRule | null {
+  const rule = getAlertRule(req.params.id);
+  if (!rule) {
+    res.status(404).json({ error: 'Alert not found', message: `No alert with id "${req.params.id}"` });
+    return null;
+  }
+  if (!tokenMatches(bearerToken(req), rule.secret) && !isOperator(deps, req)) {
+    res.status(401).json({ error: 'Unauthorized', message: 'Managing an alert needs its secret: Authorization: Bearer <secret>' });
+    return null;
+  }
+  return rule;
+}
+
+// Report how upstream data was served: the standard Age header carries the
+// oldest source's age, X-Cache the status and age of each source, e.g.
+//   X-Cache: tides=hit; age=312, buoy=stale; age=4210, marine=miss; age=0
+function setCacheHeaders(res: Response, cache: CacheInfo[]) {
+  if (cache.length === 0) return;
+  const ageSec = (info: CacheInfo) => Math.floor(info.ageMs / 1000);
+  res.set('Age', String(Math.max(...cache.map(ageSec))));
+  res.set('X-Cache', cache.map(info => `${info.source}=${info.status}; age=${ageSec(info)}`).join(', '));
+}
+
+// Sources served from an old copy because refreshing them failed
+function staleSources(cache: CacheInfo[]): string[] {
+  return cache.filter(info => info.status === 'stale').map(info => info.source);
+}
+
+// Missing wave data is a 503 (try again later), anything else a 500
+function sendDataError(res: Response, err: unknown, error: string) {
+  console.error('API Error:', err);
+  if (err instanceof InsufficientDataError) {
+    res.status(503).json({
+      error: 'Insufficient wave data',
+      message: err.message
+    });
+    return;
+  }
+  res.status(500).json({ 
+    error,
+    message: err instanceof Error ? err.message : 'Unknown error'
+  });
+}
+
+function formatWaveComponent(component: WaveComponent | undefined) {
+  if (!component) return null;
+  return {
+    height_ft: Math.round(component.height * 10) / 10,
+    period_sec: Math.round(component.period * 10) / 10,
+    direction_deg: component.direction !== null ? Math.round(component.direction) : null,
+  };
+}
+
+// Offshore and estimated breaking heights, for spots with a nearshore transformation
+function formatNearshore(spot: Spot, surfData: SurfData) {
+  if (!spot.nearshore) return null;
+  const estimate = estimateBreakingHeight(surfData.waveHeight, surfData.wavePeriod, surfData.swellDirection, spot.nearshore);
+  return {
+    offshore_height_ft: Math.round(surfData.waveHeight * 10) / 10,
+    breaking_face_height_ft: Math.round(estimate.heightFt * 10) / 10,
+    swell_angle_deg: Math.round(estimate.swellAngleDeg),
+    beach_normal_deg: spot.nearshore.beachNormalDeg,
+    refraction_coefficient: Math.round(estimate.refractionCoefficient * 100) / 100,
+  };
+}
+
+// Wind resolved against the beach the profile describes
+function formatWindComponents(surfData: SurfData, profile: ScoringProfile) {
+  const components = windComponents(surfData.windSpeed, surfData.windDirection, profile.beachFacingDeg);
+  return {
+    onshore_kts: Math.round(components.onshoreKts * 10) / 10,
+    cross_shore_kts: Math.round(components.crossShoreKts * 10) / 10,
+  };
+}
+
+function formatWindEvent(event: WindEvent, timeZone: string) {
+  return {
+    type: event.type,
+    date: event.date,
+    start: new Date(event.start).toISOString(),
+    end: event.end !== null ? new Date(event.end).toISOString() : null,
+    local_time: event.end !== null
+      ? `${formatLocalTime(event.start, timeZone)} - ${formatLocalTime(event.end, timeZone)}`
+      : formatLocalTime(event.start, timeZone),
+    description: event.description,
+  };
+}
+
+// Per-factor score breakdown in the snake_case shape used by responses
+function formatBreakdown(breakdown: ScoreFactor[]) {
+  return breakdown.map(factor => ({
+    factor: factor.factor,
+    value: factor.value,
+    points: factor.points,
+    max_points: factor.maxPoints,
+    reason: factor.reason,
+  }));
+}
+
+// Where each current input came from, keyed by snake_case field name
+function formatProvenance(provenance: Provenance, now: number = Date.now()) {
+  return Object.fromEntries(PROVENANCE_FIELDS.map(field => {
+    const p = provenance[field];
+    return [field.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`), {
+      source: p.source,
+      observed_at: p.observedAt,
+      age_minutes: ageMinutes(p, now),
+      fallback: p.fallback,
+      defaulted: p.defaulted,
+      stale: p.stale,
+    }];
+  }));
+}
+
+function formatGear(gear: GearRecommendation) {
+  const { wetsuit, board } = gear;
+  return {
+    wetsuit: wetsuit && {
+      suit: wetsuit.suit,
+      thickness_mm: wetsuit.thicknessMm,
+      boots: wetsuit.boots,
+      hood: wetsuit.hood,
+      gloves: wetsuit.gloves,
+      feels_like_c: Math.round(wetsuit.feelsLikeC * 10) / 10,
+      feels_like_f: Math.round((wetsuit.feelsLikeC * 9/5 + 32) * 10) / 10,
+      reason: wetsuit.reason,
+    },
+    board: { class: board.board, reason: board.reason },
+  };
+}
+
+function formatSafety(safety: SafetyAssessment) {
+  return {
+    safe: safety.safe,
+    rip_current_risk: safety.ripCurrentRisk,
+    hazards: safety.hazards.map(hazard => ({
+      type: hazard.type,
+      level: hazard.level,
+      message: hazard.message,
+      overrides_surfable: hazard.overridesSurfable,
+    })),
+  };
+}
+
+// How many forecast hours each hazard covers, and when it first shows up
+function summarizeSafety(hours: ScoredHour[]) {
+  const byType = new Map<HazardType, { level: string; hours: number; first: string }>();
+  for (const hour of hours) {
+    for (const hazard of hour.safety?.hazards ?? []) {
+      const seen = byType.get(hazard.type);
+      byType.set(hazard.type, {
+        level: seen?.level === 'warning' ? 'warning' : hazard.level,
+        hours: (seen?.hours ?? 0) + 1,
+        first: seen?.first ?? hour.time,
+      });
+    }
+  }
+  return {
+    unsafe_hours: hours.filter(hour => hour.safety?.safe === false).length,
+    hazards: [...byType].map(([type, { level, hours, first }]) => ({ type, worst_level: level, hours, first_time: first })),
+  };
+}
+
+// Score the current conditions, discounting defaulted inputs and applying
+// hazards, along with the provenance and confidence blocks that go with the result
+function scoreCurrentConditions(conditions: SpotConditions, profile: ScoringProfile, phrasing?: Phrasing) {
+  const { result, flags } = discountDefaultedInputs(
+    calculateSurfability(conditions.currentSurfData, profile, phrasing),
+    conditions.provenance,
+    profile,
+    phrasing
+  );
+  const safety = assessSafety(conditions.currentSurfData, conditions.weather.weatherCode, profile);
+  return {
+    result: applySafety(result, safety, phrasing),
+    safety,
+    reporting: {
+      provenance: formatProvenance(conditions.provenance),
+      confidence: assessConfidence(conditions.provenance),
+      rating_flags: flags,
+    },
+  };
+}
+
+function formatSunTime(timestamp: number | null, timeZone: string) {
+  if (timestamp === null) return null;
+  return { time: formatLocalTime(timestamp, timeZone), timestamp: new Date(timestamp).toISOString() };
+}
+
+// Today's light at the spot, and how much of what's left of it is surfable
+function buildDaylight(spot: Spot, scoredHours: ScoredHour[], now: number = Date.now()) {
+  const today = sunTimes(localDateString(now, spot.timezone), spot);
+  const firstLight = today.firstLight ?? now;
+  const lastLight = today.lastLight ?? now;
+  const isDaylight = now >= firstLight && now < lastLight;
+
+  // When it's dark, the next dawn patrol: this morning's or tomorrow's
+  let nextFirstLight: number | null = null;
+  if (!isDaylight) {
+    nextFirstLight = now < firstLight
+      ? today.firstLight
+      : sunTimes(localDateString(now + DAY_MS, spot.timezone), spot).firstLight;
+  }
+
+  const remainingSurfableHours = upcomingHours(scoredHours, new Date(now))
+    .filter(hour => new Date(hour.time).getTime() < lastLight && hour.daylight && hour.result?.surfable)
+    .length;
+
+  return {
+    is_daylight: isDaylight,
+    first_light: formatSunTime(today.firstLight, spot.timezone),
+    sunrise: formatSunTime(today.sunrise, spot.timezone),
+    sunset: formatSunTime(today.sunset, spot.timezone),
+    last_light: formatSunTime(today.lastLight, spot.timezone),
+    next_first_light: formatSunTime(nextFirstLight, spot.timezone),
+    remaining_daylight_hours: Math.round(Math.max(0, lastLight - Math.max(now, firstLight)) / HOUR_MS * 10) / 10,
+    remaining_surfable_hours: remainingSurfableHours,
+  };
+}
+
+// The current score and duration message for a skill level, to go alongside
+// the baseline
+function buildPersonalized(conditions: SpotConditions, level: SkillLevel, profile: ScoringProfile, spot: Spot, phrasing: Phrasing) {
+  const { result } = scoreCurrentConditions(conditions, profile, phrasing);
+  const scoredHours = scoreHourlyForecasts(conditions.hourlyForecasts, conditions.tideData, profile, spot);
+  return {
+    skill: level,
+    scoring_profile: profile.id,
+    surfable: result.surfable,
+    rating: result.funRating,
+    score: result.score,
+    goodSurfDuration: getConditionsDuration(scoredHours, profile, new Date(), phrasing),
+    traditional_rating: result.rating,
+  };
+}
+
+function buildExplanation(result: SurfabilityResult, profile: ScoringProfile) {
+  // Scores are capped at 100 even though the factor maximums add up to more
+  const maxScore = Math.min(100, result.breakdown.reduce((total, factor) => total + factor.maxPoints, 0));
+  return {
+    score: result.score,
+    max_score: maxScore,
+    rating: result.rating,
+    fun_rating: result.funRating,
+    scoring_profile: profile.id,
+    thresholds: profile.ratingThresholds,
+    factors: formatBreakdown(result.breakdown),
+  };
+}
+
+async function handleSurfability(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  const profile = resolveProfile(spot, req, res);
+  if (!profile) return;
+  const skill = resolveSkill(profile, req, res);
+  if (skill === null) return;
+  const vocabulary = resolveVocabulary(req, res);
+  if (!vocabulary) return;
+  const phrasing = spotPhrasing(spot, vocabulary);
+
+  try {
+    console.log(`Surfability request for ${spot.id} from:`, req.headers.origin);
+    
+    const conditions = await fetchSpotConditions(deps, spot);
+    const { tideData, currentSurfData, hourlyForecasts, weather, dataSource, buoyObservedAt, nowcast, cache } = conditions;
+    const { airTemperature, waterTemperature, weatherCode, weatherDescription } = weather;
+
+    const { result, safety, reporting } = scoreCurrentConditions(conditions, profile, phrasing);
+    const { score, surfable, rating, funRating } = result;
+
+    const scoredHours = scoreHourlyForecasts(hourlyForecasts, tideData, profile, spot);
+    const conditionsDuration = getConditionsDuration(scoredHours, profile, new Date(), phrasing);
+    const personalized = skill && buildPersonalized(conditions, skill.level, skill.profile, spot, phrasing);
+
+    // Format next tide times for human readability
+    const formatTideTime = (tideEvent: { time: string; height: number } | null) => {
+      if (!tideEvent) return null;
+      
+      return {
+        time: formatLocalTime(new Date(tideEvent.time).getTime(), spot.timezone),
+        height: Math.round(tideEvent.height * 10) / 10,
+        timestamp: tideEvent.time // Include full timestamp for chart plotting
+      };
+    };
+
+    setCacheHeaders(res, cache);
+    setLanguageHeaders(res);
+
+    // Response with real tide data
+    res.json({
+      spot: spot.id,
+      location: spot.name,
+      timestamp: new Date().toISOString(),
+      surfable,
+      rating: funRating,
+      score,
+      goodSurfDuration: conditionsDuration,
+      ...(personalized && { personalized }),
+      details: {
+        wave_height_ft: Math.round(currentSurfData.waveHeight * 10) / 10,
+        wave_period_sec: Math.round(currentSurfData.wavePeriod * 10) / 10,
+        swell_direction_deg: Math.round(currentSurfData.swellDirection),
+        wind_direction_deg: Math.round(currentSurfData.windDirection),
+        wind_speed_kts: Math.round(currentSurfData.windSpeed * 10) / 10,
+        wind_gust_kts: currentSurfData.windGust !== undefined ? Math.round(currentSurfData.windGust * 10) / 10 : null,
+        wind_components: formatWindComponents(currentSurfData, profile),
+        tide_state: tideData.state,
+        tide_height_ft: Math.round(tideData.currentHeight * 10) / 10,
+        swell: formatWaveComponent(currentSurfData.swell),
+        wind_sea: formatWaveComponent(currentSurfData.windSea),
+        steepness: currentSurfData.steepness ?? null,
+        nearshore: formatNearshore(spot, currentSurfData),
+        data_source: dataSource,
+        buoy_observed_at: buoyObservedAt,
+        nowcast: formatNowcast(nowcast),
+        stale_sources: staleSources(cache),
+        traditional_rating: rating, // Keep the traditional rating for reference
+        scoring_profile: profile.id,
+        vocabulary: vocabulary.id
+      },
+      weather: {
+        air_temperature_c: Math.round(airTemperature * 10) / 10,
+        air_temperature_f: Math.round((airTemperature * 9/5 + 32) * 10) / 10,
+        water_temperature_c: Math.round(waterTemperature * 10) / 10,
+        water_temperature_f: Math.round((waterTemperature * 9/5 + 32) * 10) / 10,
+        weather_code: weatherCode,
+        weather_description: weatherDescription
+      },
+      tides: {
+        current_height_ft: Math.round(tideData.currentHeight * 10) / 10,
+        state: tideData.state,
+        next_high: formatTideTime(tideData.nextHigh),
+        next_low: formatTideTime(tideData.nextLow),
+        previous_high: formatTideTime(tideData.previousHigh),
+        previous_low: formatTideTime(tideData.previousLow),
+        station: `NOAA ${spot.tideStation} (${spot.tideStationName})`,
+        // Optional: Add tide range and cycle info
+        cycle_info: {
+          range_ft: tideData.nextHigh && tideData.nextLow ? 
+            Math.round((tideData.nextHigh.height - tideData.nextLow.height) * 10) / 10 : null,
+          cycle_duration_hours: tideData.previousHigh && tideData.nextHigh ? 
+            Math.round(((new Date(tideData.nextHigh.time).getTime() - new Date(tideData.previousHigh.time).getTime()) / (1000 * 60 * 60)) * 10) / 10 : null
+        }
+      },
+      safety: formatSafety(safety),
+      gear: formatGear(recommendGear(currentSurfData, waterTemperature, airTemperature)),
+      daylight: buildDaylight(spot, scoredHours),
+      wind_events: findWindEvents(upcomingHours(scoredHours).slice(0, 24), profile, spot.timezone)
+        .map(event => formatWindEvent(event, spot.timezone)),
+      ...reporting,
+      ...(req.query.explain === 'true' && { explanation: buildExplanation(result, profile) }),
+    });
+  } catch (err) {
+    sendDataError(res, err, 'Error fetching surf data');
+  }
+}
+
+
+async function handleExplain(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  const profile = resolveProfile(spot, req, res);
+  if (!profile) return;
+  const vocabulary = resolveVocabulary(req, res);
+  if (!vocabulary) return;
+
+  try {
+    const conditions = await fetchSpotConditions(deps, spot);
+    const { dataSource, cache } = conditions;
+    const { result, safety, reporting } = scoreCurrentConditions(conditions, profile, spotPhrasing(spot, vocabulary));
+
+    setCacheHeaders(res, cache);
+    setLanguageHeaders(res);
+    res.json({
+      spot: spot.id,
+      location: spot.name,
+      timestamp: new Date().toISOString(),
+      surfable: result.surfable,
+      data_source: dataSource,
+      stale_sources: staleSources(cache),
+      safety: formatSafety(safety),
+      ...buildExplanation(result, profile),
+      ...reporting,
+    });
+  } catch (err) {
+    sendDataError(res, err, 'Error fetching surf data');
+  }
+}
+
+// Marine forecasts from Open-Meteo only reach 7 days out
+const MAX_FORECAST_DAYS = 7;
+
+const roundOrNull = (value: number | null, factor = 1, digits = 10) =>
+  value === null ? null : Math.round(value * factor * digits) / digits;
+
+// The buoy-minus-model bias blended into the forecast hours
+function formatNowcast(bias: NowcastBias | null) {
+  if (!bias) return null;
+  return {
+    observed_at: bias.observedAt,
+    model_time: bias.modelTime,
+    wave_height_bias_ft: Math.round(bias.waveHeightFt * 10) / 10,
+    wave_period_bias_sec: Math.round(bias.wavePeriodSec * 10) / 10,
+    half_life_hours: NOWCAST_HALF_LIFE_HOURS,
+    horizon_hours: NOWCAST_HORIZON_HOURS,
+  };
+}
+
+// `personal` is the same hour scored for a skill level, if one was requested
+function formatScoredHour(hour: ScoredHour, personal?: ScoredHour) {
+  const { forecast, surfData, result } = hour;
+  return {
+    time: hour.time,
+    wave_height_ft: roundOrNull(forecast.wave_height, 3.28084),
+    breaking_face_height_ft: surfData?.breakingHeight !== undefined ? Math.round(surfData.breakingHeight * 10) / 10 : null,
+    wave_period_sec: roundOrNull(forecast.wave_period),
+    swell_direction_deg: roundOrNull(forecast.swell_direction, 1, 1),
+    wind_speed_kts: roundOrNull(forecast.wind_speed, 0.539957),
+    wind_direction_deg: roundOrNull(forecast.wind_direction, 1, 1),
+    wind_gust_kts: roundOrNull(forecast.wind_gust, 0.539957),
+    air_temperature_c: roundOrNull(forecast.air_temperature),
+    water_temperature_c: roundOrNull(forecast.water_temperature),
+    swell: formatWaveComponent(marineComponent(forecast.swell_height, forecast.swell_period, forecast.swell_direction)),
+    wind_sea: formatWaveComponent(marineComponent(forecast.wind_wave_height, forecast.wind_wave_period, forecast.wind_wave_direction)),
+    tide_state: surfData?.tide ?? null,
+    tide_height_ft: surfData?.tideHeight !== undefined ? Math.round(surfData.tideHeight * 10) / 10 : null,
+    score: result?.score ?? null,
+    rating: result?.rating ?? null,
+    fun_rating: result?.funRating ?? null,
+    surfable: result?.surfable ?? null,
+    daylight: hour.daylight,
+    ...(personal && {
+      personalized: {
+        score: personal.result?.score ?? null,
+        rating: personal.result?.rating ?? null,
+        surfable: personal.result?.surfable ?? null,
+      },
+    }),
+    safety: hour.safety && formatSafety(hour.safety),
+    gear: surfData && formatGear(recommendGear(surfData, forecast.water_temperature, forecast.air_temperature)),
+    missing: forecast.missing,
+    nowcast_correction: forecast.correction
+      ? {
+          weight: Math.round(forecast.correction.weight * 100) / 100,
+          wave_height_ft: Math.round(forecast.correction.waveHeightFt * 10) / 10,
+          wave_period_sec: Math.round(forecast.correction.wavePeriodSec * 10) / 10,
+        }
+      : null,
+  };
+}
+
+async function handleForecast(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  const profile = resolveProfile(spot, req, res);
+  if (!profile) return;
+
+  const days = req.query.days === undefined ? MAX_FORECAST_DAYS : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_FORECAST_DAYS) {
+    res.status(400).json({
+      error: 'Invalid days',
+      message: `days must be a whole number from 1 to ${MAX_FORECAST_DAYS}`
+    });
+    return;
+  }
+  const skill = resolveSkill(profile, req, res);
+  if (skill === null) return;
+  const vocabulary = resolveVocabulary(req, res);
+  if (!vocabulary) return;
+
+  try {
+    const { tideData, hourlyForecasts, dataSource, nowcast, cache } = await fetchSpotConditions(deps, spot, days);
+    const phrasing = { vocabulary, spotId: spot.id };
+    const scoredHours = upcomingHours(scoreHourlyForecasts(hourlyForecasts, tideData, profile, spot, phrasing));
+    const personalHours = skill && upcomingHours(scoreHourlyForecasts(hourlyForecasts, tideData, skill.profile, spot, phrasing));
+
+    setCacheHeaders(res, cache);
+    setLanguageHeaders(res);
+    res.json({
+      spot: spot.id,
+      location: spot.name,
+      timestamp: new Date().toISOString(),
+      days,
+      scoring_profile: profile.id,
+      ...(skill && { skill: skill.level, personalized_profile: skill.profile.id }),
+      data_source: dataSource,
+      stale_sources: staleSources(cache),
+      nowcast: formatNowcast(nowcast),
+      safety: summarizeSafety(scoredHours),
+      wind_events: findWindEvents(scoredHours, profile, spot.timezone).map(event => formatWindEvent(event, spot.timezone)),
+      hours: scoredHours.map((hour, i) => formatScoredHour(hour, personalHours?.[i])),
+    });
+  } catch (err) {
+    sendDataError(res, err, 'Error fetching forecast data');
+  }
+}
+
+// Parse an optional whole-number query parameter, or null if it is invalid
+function intParam(req: Request, name: string, fallback: number, min: number, max: number): number | null {
+  const value = req.query[name] === undefined ? fallback : Number(req.query[name]);
+  return Number.isInteger(value) && value >= min && value <= max ? value : null;
+}
+
+function formatWindow(window: SurfWindow, rank: number, timeZone: string) {
+  const round1 = (value: number | null) => value === null ? null : Math.round(value * 10) / 10;
+  return {
+    rank,
+    start: new Date(window.start).toISOString(),
+    end: new Date(window.end).toISOString(),
+    date: localDateString(window.start, timeZone),
+    local_time: `${formatLocalTime(window.start, timeZone)} - ${formatLocalTime(window.end, timeZone)}`,
+    hours: window.hours.length,
+    average_score: Math.round(window.averageScore),
+    peak_score: window.peakScore,
+    peak_time: window.peakTime,
+    peak_rating: window.hours.find(hour => hour.time === window.peakTime)!.result!.funRating,
+    tide: {
+      phases: window.tidePhases,
+      start_height_ft: round1(window.startTideHeight),
+      end_height_ft: round1(window.endTideHeight),
+    },
+    limiting_factors: window.limitingFactors,
+  };
+}
+
+async function handleBestWindows(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  const profile = resolveProfile(spot, req, res);
+  if (!profile) return;
+
+  const days = intParam(req, 'days', 3, 1, MAX_FORECAST_DAYS);
+  const minScore = intParam(req, 'minScore', profile.ratingThresholds.good, 0, 100);
+  const minHours = intParam(req, 'minHours', 2, 1, 24);
+  if (days === null || minScore === null || minHours === null) {
+    res.status(400).json({
+      error: 'Invalid parameters',
+      message: `days must be 1-${MAX_FORECAST_DAYS}, minScore 0-100 and minHours 1-24 (whole numbers)`
+    });
+    return;
+  }
+  const vocabulary = resolveVocabulary(req, res);
+  if (!vocabulary) return;
+
+  try {
+    const { tideData, hourlyForecasts, dataSource, cache } = await fetchSpotConditions(deps, spot, days);
+    const scoredHours = upcomingHours(scoreHourlyForecasts(hourlyForecasts, tideData, profile, spot, { vocabulary, spotId: spot.id }));
+    const windows = findBestWindows(scoredHours, { minScore, minHours }, profile, spot.timezone);
+
+    setCacheHeaders(res, cache);
+    setLanguageHeaders(res);
+    res.json({
+      spot: spot.id,
+      location: spot.name,
+      timestamp: new Date().toISOString(),
+      days,
+      min_score: minScore,
+      min_hours: minHours,
+      scoring_profile: profile.id,
+      data_source: dataSource,
+      stale_sources: staleSources(cache),
+      windows: windows.map((window, i) => formatWindow(window, i + 1, spot.timezone)),
+    });
+  } catch (err) {
+    sendDataError(res, err, 'Error fetching forecast data');
+  }
+}
+
+const MAX_TREND_HOURS = 48;
+
+function formatSeriesTrend(trend: SeriesTrend) {
+  return {
+    slope_per_hour: trend.slopePerHour !== null ? Math.round(trend.slopePerHour * 1000) / 1000 : null,
+    trend: trend.trend,
+    latest: trend.latest !== null ? Math.round(trend.latest * 10) / 10 : null,
+    peak: trend.peak ? { time: trend.peak.time, value: Math.round(trend.peak.value * 10) / 10 } : null,
+  };
+}
+
+async function handleBuoyTrend(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  const hours = req.query.hours === undefined ? 24 : Number(req.query.hours);
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_TREND_HOURS) {
+    res.status(400).json({
+      error: 'Invalid hours',
+      message: `hours must be a whole number from 1 to ${MAX_TREND_HOURS}`
+    });
+    return;
+  }
+
+  try {
+    const buoyText = await cachedBuoyText(deps.providers, spot.buoyStation);
+    const observations = parseSpectralFile(buoyText.value);
+    if (observations.length === 0) {
+      throw new InsufficientDataError(`Buoy ${spot.buoyStation} has no recent observations`);
+    }
+
+    const trend = analyzeBuoyTrend(observations, hours);
+
+    setCacheHeaders(res, [cacheInfo(buoyText)]);
+    res.json({
+      spot: spot.id,
+      station: spot.buoyStation,
+      timestamp: new Date().toISOString(),
+      hours,
+      latest_observed_at: trend.latestObservedAt,
+      age_minutes: trend.ageMinutes,
+      stale: trend.stale,
+      observations: trend.observations.map(o => ({
+        time: o.time,
+        wave_height_ft: o.waveHeightFt !== null ? Math.round(o.waveHeightFt * 10) / 10 : null,
+        wave_period_sec: o.wavePeriodSec,
+        direction_deg: o.directionDeg,
+      })),
+      trends: {
+        wave_height_ft: formatSeriesTrend(trend.waveHeight),
+        wave_period_sec: formatSeriesTrend(trend.wavePeriod),
+        direction_deg: {
+          slope_per_hour: trend.direction.slopePerHour !== null ? Math.round(trend.direction.slopePerHour * 10) / 10 : null,
+          trend: trend.direction.trend,
+          latest: trend.direction.latest,
+        },
+      },
+    });
+  } catch (err) {
+    sendDataError(res, err, 'Error fetching buoy data');
+  }
+}
+
+// NOAA serves 6-minute water levels for at most 31 days per request
+const MAX_TIDE_RANGE_DAYS = 31;
+
+async function handleTides(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  const now = Date.now();
+  const begin = typeof req.query.begin === 'string' ? req.query.begin : localDateString(now, spot.timezone);
+  const end = typeof req.query.end === 'string' ? req.query.end : begin;
+  const interval = req.query.interval === undefined ? 15 : Number(req.query.interval);
+
+  let beginMs: number;
+  let endMs: number;
+  try {
+    beginMs = startOfLocalDay(begin, spot.timezone);
+    endMs = startOfLocalDay(end, spot.timezone) + DAY_MS; // End date is inclusive
+  } catch (err) {
+    res.status(400).json({ error: 'Invalid date', message: err instanceof Error ? err.message : 'Invalid date' });
+    return;
+  }
+
+  if (endMs <= beginMs || endMs - beginMs > MAX_TIDE_RANGE_DAYS * DAY_MS) {
+    res.status(400).json({
+      error: 'Invalid date range',
+      message: `end must be on or after begin, and the range at most ${MAX_TIDE_RANGE_DAYS} days`
+    });
+    return;
+  }
+  if (!Number.isInteger(interval) || interval < 1 || interval > 60) {
+    res.status(400).json({ error: 'Invalid interval', message: 'interval must be a whole number of minutes from 1 to 60' });
+    return;
+  }
+
+  try {
+    // Pad the predictions by a day so the curve can be interpolated right up
+    // to the edges of the range; observations only exist up to now
+    const range = `${spot.tideStation}:${beginMs}:${endMs}`;
+    const [events, observations] = await Promise.all([
+      cached('tides', `events:${range}`, () => deps.providers.tides.predictions(spot.tideStation, beginMs - DAY_MS, endMs + DAY_MS)),
+      beginMs < now
+        ? cached('tides', `levels:${range}`, () => deps.providers.tides.waterLevels(spot.tideStation, beginMs, Math.min(endMs, now)))
+        : null,
+    ]);
+
+    const curve = buildTideCurve(events.value, beginMs, endMs, interval * MINUTE_MS, observations?.value ?? []);
+    const residuals = curve.flatMap(point => point.residual !== null ? [point.residual] : []);
+    const round2 = (value: number) => Math.round(value * 100) / 100;
+
+    setCacheHeaders(res, [events, ...(observations ? [observations] : [])].map(cacheInfo));
+    res.json({
+      spot: spot.id,
+      station: `NOAA ${spot.tideStation} (${spot.tideStationName})`,
+      timezone: spot.timezone,
+      begin: new Date(beginMs).toISOString(),
+      end: new Date(endMs).toISOString(),
+      interval_minutes: interval,
+      datum: 'MLLW',
+      events: events.value
+        .filter(event => event.timestamp >= beginMs && event.timestamp <= endMs)
+        .map(event => ({
+          time: event.time,
+          local_time: formatLocalTime(event.timestamp, spot.timezone),
+          type: event.type === 'H' ? 'high' : 'low',
+          height_ft: round2(event.height),
+        })),
+      curve: curve.map(point => ({
+        time: point.time,
+        height_ft: round2(point.height),
+        rate_ft_per_hr: round2(point.rateFtPerHour),
+        observed_ft: point.observed !== null ? round2(point.observed) : null,
+        residual_ft: point.residual !== null ? round2(point.residual) : null,
+      })),
+      residuals: residuals.length > 0 ? {
+        count: residuals.length,
+        mean_ft: round2(residuals.reduce((sum, r) => sum + r, 0) / residuals.length),
+        max_abs_ft: round2(Math.max(...residuals.map(Math.abs))),
+      } : null,
+    });
+  } catch (err) {
+    sendDataError(res, err, 'Error fetching tide data');
+  }
+}
+
+// Resolve the spot for a /spots/:id/... route, answering 404 for unknown ids
+function resolveSpot(req: Request, res: Response): Spot | null {
+  const spot = getSpot(req.params.id);
+  if (!spot) {
+    res.status(404).json({
+      error: 'Unknown spot',
+      message: `No spot with id "${req.params.id}". See /spots for available spots.`
+    });
+    return null;
+  }
+  return spot;
+}
+
+function formatVerificationReport(report: VerificationReport) {
+  const round2 = (value: number | null) => value === null ? null : Math.round(value * 100) / 100;
+  const errors = (stats: { bias: number | null; mae: number | null }) => ({ bias: round2(stats.bias), mae: round2(stats.mae) });
+
+  return {
+    spot: report.spotId,
+    generated_at: report.generatedAt,
+    verified_hours: report.verifiedHours,
+    unmatched_hours: report.unmatchedHours,
+    lead_times: report.buckets.map(bucket => ({
+      lead_time: bucket.label,
+      count: bucket.count,
+      wave_height_ft: errors(bucket.waveHeightFt),
+      wave_period_sec: errors(bucket.wavePeriodSec),
+      score: errors(bucket.score),
+      surfable_hit_rate: round2(bucket.surfableHitRate),
+    })),
+  };
+}
+
+function handleVerification(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  try {
+    const report = req.query.refresh === 'true'
+      ? buildSpotVerification(deps.archive, spot)
+      : deps.latestVerification?.(spot.id) ?? buildSpotVerification(deps.archive, spot);
+    res.json(formatVerificationReport(report));
+  } catch (err) {
+    sendDataError(res, err, 'Error building verification report');
+  }
+}
+
+function formatSession({ session, conditions }: JoinedSession) {
+  const round1 = (value: number | undefined | null) => value === undefined || value === null ? null : Math.round(value * 10) / 10;
+  return {
+    id: session.id,
+    spot: session.spotId,
+    surfed_at: new Date(session.surfedAt).toISOString(),
+    rating: session.rating,
+    notes: session.notes,
+    logged_at: new Date(session.loggedAt).toISOString(),
+    conditions: conditions && {
+      time: new Date(conditions.validAt).toISOString(),
+      forecast_issued_at: new Date(conditions.issuedAt).toISOString(),
+      lead_hours: round1(conditions.leadHours),
+      wave_height_ft: round1(conditions.waveHeightFt),
+      breaking_face_height_ft: round1(conditions.breakingHeightFt),
+      wave_period_sec: round1(conditions.wavePeriodSec),
+      swell_direction_deg: Math.round(conditions.swellDirectionDeg),
+      wind_speed_kts: round1(conditions.windSpeedKts),
+      wind_gust_kts: round1(conditions.windGustKts),
+      wind_direction_deg: Math.round(conditions.windDirectionDeg),
+      tide_state: conditions.tide,
+      tide_height_ft: round1(conditions.tideHeightFt),
+      score: conditions.score,
+      scoring_profile: conditions.profileId,
+    },
+  };
+}
+
+// Calibration starts from the spot's configured profile rather than whatever
+// it was last switched to, so calibrating again refits from scratch
+function configuredProfile(spot: Spot): ScoringProfile {
+  return getProfile(spot.profileId ?? DEFAULT_PROFILE_ID) ?? DEFAULT_PROFILE;
+}
+
+function formatCalibration(report: CalibrationReport, spot: Spot, unmatched: number, base: ScoringProfile) {
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+  const agreement = (stats: CalibrationReport['baseline']) => ({ score_mae: round2(stats.scoreMae), rating_match: round2(stats.ratingMatch) });
+  return {
+    spot: spot.id,
+    sessions: report.sessions,
+    unmatched_sessions: unmatched,
+    base_profile: report.baseProfileId,
+    calibrated_profile: report.profile.id,
+    active_profile: spotProfile(spot).id,
+    weights: {
+      fitted: report.weights,
+      base: { ...DEFAULT_WEIGHTS, ...base.weights },
+    },
+    rating_thresholds: {
+      fitted: report.ratingThresholds,
+      base: base.ratingThresholds,
+    },
+    agreement: {
+      base: agreement(report.baseline),
+      calibrated: agreement(report.calibrated),
+      // Each session scored by a profile fitted to the other sessions
+      held_out: agreement(report.heldOut),
+      // Positive is better: lower score error, more matching ratings
+      improvement: {
+        score_mae: round2(report.baseline.scoreMae - report.calibrated.scoreMae),
+        rating_match: round2(report.calibrated.ratingMatch - report.baseline.ratingMatch),
+      },
+    },
+  };
+}
+
+// Fit the spot's scoring to its logged sessions. GET reports the fit, POST
+// also switches the spot to the calibrated profile and DELETE switches it back;
+// switching changes every caller's scores, so it needs the operator token.
+async function handleCalibration(deps: AppDependencies, spot: Spot, req: Request, res: Response) {
+  if (req.method !== 'GET' && !requireOperator(deps, req, res)) return;
+
+  try {
+    if (req.method === 'DELETE') {
+      await switchSpotProfile(deps.archive, spot.id, null);
+      console.log(`🎚️ ${spot.id} is back on its configured scoring profile`);
+      res.json({ spot: spot.id, active_profile: spotProfile(spot).id });
+      return;
+    }
+
+    const joined = loadSessions(deps.archive, spot.id);
+    const samples = joined.flatMap(({ session, conditions }) =>
+      conditions ? [{ rating: session.rating, data: archivedSurfData(conditions) }] : []);
+    if (samples.length < MIN_CALIBRATION_SESSIONS) {
+      res.status(422).json({
+        error: 'Not enough sessions',
+        message: `Calibration needs at least ${MIN_CALIBRATION_SESSIONS} rated sessions with archived conditions; ${spot.id} has ${samples.length}`
+      });
+      return;
+    }
+
+    const base = configuredProfile(spot);
+    const report = calibrate(samples, base);
+    if (req.method === 'POST') {
+      await switchSpotProfile(deps.archive, spot.id, report.profile);
+      console.log(`🎚️ ${spot.id} switched to calibrated scoring profile "${report.profile.id}"`);
+    }
+    res.json(formatCalibration(report, spot, joined.length - samples.length, base));
+  } catch (err) {
+    sendDataError(res, err, 'Error calibrating scoring');
+  }
+}
+
+// Alert rules. The secret used to sign webhooks is only returned on creation.
+function formatAlertRule(rule: AlertRule) {
+  const state = getAlertState(rule.id);
+  return {
+    id: rule.id,
+    spot: rule.spotId,
+    profile: rule.profileId,
+    webhook_url: rule.webhookUrl,
+    conditions: rule.conditions,
+    within_hours: rule.withinHours,
+    daylight_only: rule.daylightOnly,
+    cooldown_minutes: rule.cooldownMinutes,
+    created_at: rule.createdAt,
+    matching: state?.matching ?? false,
+    last_evaluated_at: state?.lastEvaluatedAt ?? null,
+    last_notified_at: state?.lastNotifiedAt ?? null,
+    last_delivery: state?.lastDelivery ? {
+      delivery_id: state.lastDelivery.deliveryId,
+      delivered: state.lastDelivery.delivered,
+      attempts: state.lastDelivery.attempts,
+      status: state.lastDelivery.status,
+      error: state.lastDelivery.error,
+    } : null,
+  };
+}
+
+export function createApp(deps: AppDependencies): Express {
+  const app = express();
+
+  app.use(cors(corsOptions));
+
+  app.options('*', (req: Request, res: Response) => {
+    res.header('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Accept, Authorization, X-Requested-With, Origin, Cache-Control, Pragma, Expires');
+    res.header('Access-Control-Allow-Credentials', 'true');
+    res.sendStatus(200);
+  });
+
+  app.use(express.json());
+
+  // Optional: Add logging for debugging
+  app.use((req: Request, res: Response, next) => {
+    console.log(`📡 ${req.method} ${req.path} from: ${req.headers.origin || 'no-origin'}`);
+    next();
+  });
+
+  app.get('/spots', (_req: Request, res: Response) => {
+    res.json({
+      default: getDefaultSpot().id,
+      spots: spots.map(spot => ({
+        id: spot.id,
+        name: spot.name,
+        latitude: spot.latitude,
+        longitude: spot.longitude,
+        timezone: spot.timezone,
+        buoy_station: spot.buoyStation,
+        tide_station: spot.tideStation,
+        scoring_profile: spotProfile(spot).id,
+      })),
+    });
+  });
+
+  app.get('/profiles', (_req: Request, res: Response) => {
+    res.json({
+      default: DEFAULT_PROFILE_ID,
+      profiles: listProfiles(),
+      skill_levels: Object.entries(SKILL_LEVELS).map(([id, skill]) => ({ id, ...skill })),
+      vocabularies: Object.values(VOCABULARY_PACKS).map(({ id, name, language }) => ({ id, name, language })),
+      default_vocabulary: DEFAULT_VOCABULARY.id,
+    });
+  });
+
+  app.get('/spots/:id/surfability', (req: Request, res: Response) => {
+    const spot = resolveSpot(req, res);
+    if (!spot) return;
+    return handleSurfability(deps, spot, req, res);
+  });
+
+  app.get('/spots/:id/surfability/explain', (req: Request, res: Response) => {
+    const spot = resolveSpot(req, res);
+    if (!spot) return;
+    return handleExplain(deps, spot, req, res);
+  });
+
+  app.get('/spots/:id/forecast', (req: Request, res: Response) => {
+    const spot = resolveSpot(req, res);
+    if (!spot) return;
+    return handleForecast(deps, spot, req, res);
+  });
+
+  app.get('/spots/:id/buoy/trend', (req: Request, res: Response) => {
+    const spot = resolveSpot(req, res);
+    if (!spot) return;
+    return handleBuoyTrend(deps, spot, req, res);
+  });
+
+  app.get('/spots/:id/best-windows', (req: Request, res: Response) => {
+    const spot = resolveSpot(req, res);
+    if (!spot) return;
+    return handleBestWindows(deps, spot, req, res);
+  });
+
+  app.get('/spots/:id/tides', (req: Request, res: Response) => {
+    const spot = resolveSpot(req, res);
+    if (!spot) return;
+    return handleTides(deps, spot, req, res);
+  });
+
+  app.get('/spots/:id/verification', (req: Request, res: Response) => {
+    const spot = resolveSpot(req, res);
+    if (!spot) return;
+    return handleVerification(deps, spot, req, res);
+  });
+
+  app.get('/verification', (req: Request, res: Response) => handleVerification(deps, getDefaultSpot(), req, res));
+
+  app.post('/sessions', async (req: Request, res: Response) => {
+    const { request, errors } = parseSessionRequest(req.body);
+    if (!request) {
+      res.status(400).json({ error: 'Invalid session', message: errors.join('; ') });
+      return;
+    }
+
+    try {
+      const session = createSession(request);
+      await deps.archive.recordSession(session);
+      console.log(`🏄 Logged a ${session.rating}/5 session at ${session.spotId}`);
+      const [joined] = loadSessions(deps.archive, session.spotId).filter(j => j.session.id === session.id);
+      res.status(201).json(formatSession(joined));
+    } catch (err) {
+      sendDataError(res, err, 'Error logging session');
+    }
+  });
+
+  app.get('/sessions', (_req: Request, res: Response) => {
+    try {
+      res.json({ sessions: loadSessions(deps.archive).map(formatSession) });
+    } catch (err) {
+      sendDataError(res, err, 'Error loading sessions');
+    }
+  });
+
+  for (const method of ['get', 'post', 'delete'] as const) {
+    app[method]('/spots/:id/calibration', (req: Request, res: Response) => {
+      const spot = resolveSpot(req, res);
+      if (!spot) return;
+      return handleCalibration(deps, spot, req, res);
+    });
+    app[method]('/calibration', (req: Request, res: Response) => handleCalibration(deps, getDefaultSpot(), req, res));
+  }
+
+  app.post('/alerts', async (req: Request, res: Response) => {
+    const { request, errors } = parseAlertRequest(req.body, deps.allowLocalWebhooks);
+    if (!request) {
+      res.status(400).json({ error: 'Invalid alert rule', message: errors.join('; ') });
+      return;
+    }
+
+    try {
+      const targetError = await checkWebhookTarget(request.webhookUrl, { allowLocal: deps.allowLocalWebhooks });
+      if (targetError) {
+        res.status(400).json({ error: 'Invalid alert rule', message: targetError });
+        return;
+      }
+
+      const rule = await createAlertRule(deps.archive, request);
+      console.log(`🔔 Registered alert ${rule.id} for ${rule.spotId}`);
+      res.status(201).json({ ...formatAlertRule(rule), secret: rule.secret });
+    } catch (err) {
+      sendDataError(res, err, 'Error registering alert');
+    }
+  });
+
+  // Every rule's webhook URL is in the listing, so only operators see it
+  app.get('/alerts', (req: Request, res: Response) => {
+    if (!requireOperator(deps, req, res)) return;
+    res.json({ alerts: listAlertRules().map(formatAlertRule) });
+  });
+
+  app.get('/alerts/:id', (req: Request, res: Response) => {
+    const rule = resolveAlertRule(deps, req, res);
+    if (!rule) return;
+    res.json(formatAlertRule(rule));
+  });
+
+  app.delete('/alerts/:id', async (req: Request, res: Response) => {
+    const rule = resolveAlertRule(deps, req, res);
+    if (!rule) return;
+
+    try {
+      await deleteAlertRule(deps.archive, rule.id);
+      res.status(204).end();
+    } catch (err) {
+      sendDataError(res, err, 'Error deleting alert');
+    }
+  });
+
+  // Default-spot endpoints
+  app.get('/surfability', (req: Request, res: Response) => handleSurfability(deps, getDefaultSpot(), req, res));
+  app.get('/surfability/explain', (req: Request, res: Response) => handleExplain(deps, getDefaultSpot(), req, res));
+  app.get('/forecast', (req: Request, res: Response) => handleForecast(deps, getDefaultSpot(), req, res));
+  app.get('/buoy/trend', (req: Request, res: Response) => handleBuoyTrend(deps, getDefaultSpot(), req, res));
+  app.get('/best-windows', (req: Request, res: Response) => handleBestWindows(deps, getDefaultSpot(), req, res));
+  app.get('/tides', (req: Request, res: Response) => handleTides(deps, getDefaultSpot(), req, res));
+
+  // Health check endpoint
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  return app;
+}
@@ -0,0 +1,327 @@
+import fs from 'fs';
+import path from 'path';
+import { AlertRule } from './alerts.js';
+import { ScoredHour } from './forecast.js';
+import { SpectralObservation } from './ndbc.js';
+import { ScoringProfile } from './profiles.js';
+import { WaveComponent } from './scoring.js';
+import { SurfSession } from './sessions.js';
+import { DAY_MS, HOUR_MS } from './time.js';
+
+// Local archive of what the service has seen and said: buoy observations,
+// tide readings, issued hourly forecasts, the surf sessions people logged, the
+// alert rules they registered and the calibrated profiles spots were switched
+// to. Each collection is an append-only JSON
+// Lines file in the data directory, read into memory once when the archive is
+// opened, so the archive needs no database and survives restarts as long as
+// the directory does. Observations and forecasts older than the retention
+// period are dropped from memory and their files rewritten once a day, which
+// keeps both bounded.
+
+export interface ArchivedBuoyObservation extends SpectralObservation {
+  station: string;
+}
+
+// An observed water level
+export interface ArchivedTideReading {
+  station: string;
+  timestamp: number;
+  height: number; // feet above MLLW
+}
+
+// One hour of an issued forecast, with the inputs needed to re-score it
+// against what the buoy later measured
+export interface ArchivedForecastHour {
+  spotId: string;
+  profileId: string;
+  buoyStation: string;
+  issuedAt: number;
+  validAt: number;
+  leadHours: number;
+  waveHeightFt: number;
+  breakingHeightFt?: number; // Spots with a nearshore transformation; not in older records
+  wavePeriodSec: number;
+  swellDirectionDeg: number;
+  windSpeedKts: number;
+  windGustKts?: number; // Not in older records
+  windDirectionDeg: number;
+  tide: string | null; // null past the end of the tide predictions
+  tideHeightFt: number | null;
+  // Swell and wind-sea partitions and steepness, when the hour had them; not in older records
+  swell?: WaveComponent;
+  windSea?: WaveComponent;
+  steepness?: string;
+  weatherCode?: number; // WMO code, when the hour had one; not in older records
+  score: number;
+  surfable: boolean; // After any hazard override
+}
+
+// What happened to an alert rule: registered, notified (which seeds its
+// cooldown after a restart) or deleted
+export type ArchivedAlertEvent =
+  | { type: 'created'; at: number; rule: AlertRule }
+  | { type: 'notified'; at: number; alertId: string; hour: string }
+  | { type: 'deleted'; at: number; alertId: string };
+
+// A spot switched to a calibrated profile, or back to its configured one
+export interface ArchivedProfileSwitch {
+  spotId: string;
+  at: number;
+  profile: ScoringProfile | null; // null: back to the configured profile
+}
+
+export interface ArchiveOptions {
+  retentionDays?: number; // How long observations and issued forecasts are kept
+  now?: () => number;
+}
+
+// Records resolve to how many were new once they are on disk
+export interface Archive {
+  recordBuoyObservations: (station: string, observations: SpectralObservation[]) => Promise<number>;
+  recordTideReading: (reading: ArchivedTideReading) => Promise<number>;
+  // At most one issued forecast per spot, profile and hour is kept
+  recordForecast: (spotId: string, profileId: string, buoyStation: string, hours: ScoredHour[], issuedAt?: number) => Promise<number>;
+  buoyObservations: (station: string) => ArchivedBuoyObservation[];
+  tideReadings: (station: string) => ArchivedTideReading[];
+  forecasts: (spotId: string) => ArchivedForecastHour[];
+  recordSession: (session: SurfSession) => Promise<number>;
+  sessions: (spotId?: string) => SurfSession[];
+  recordAlertEvent: (event: ArchivedAlertEvent) => Promise<number>;
+  alertEvents: () => ArchivedAlertEvent[];
+  recordProfileSwitch: (change: ArchivedProfileSwitch) => Promise<number>;
+  profileSwitches: () => ArchivedProfileSwitch[];
+  // Drop expired records now instead of waiting for the daily pass
+  compact: () => Promise<void>;
+}
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+// How a collection is stored: its file, the key that makes a record a
+// duplicate, what reads look it up by and, for collections that expire, the
+// time its age is measured from
+interface CollectionSpec<T> {
+  file: string;
+  keyOf: (record: T) => string;
+  groupOf: (record: T) => string;
+  timeOf?: (record: T) => number;
+}
+
+interface Collection<T> {
+  spec: CollectionSpec<T>;
+  groups: Map<string, T[]>;
+  keys: Set<string>; // Keys on disk or being written
+}
+
+async function readCollection<T>(file: string): Promise<T[]> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const records: T[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A torn final line from a crash mid-write; the rest of the file is fine
+      console.warn(`🗄️ Skipping unreadable line in ${file}`);
+    }
+  }
+  return records;
+}
+
+function toLines(records: object[]): string {
+  return records.map(record => JSON.stringify(record) + '\n').join('');
+}
+
+function indexRecords<T>(spec: CollectionSpec<T>, records: T[]): Collection<T> {
+  const collection: Collection<T> = { spec, groups: new Map(), keys: new Set() };
+  for (const record of records) {
+    const key = spec.keyOf(record);
+    if (collection.keys.has(key)) continue;
+    collection.keys.add(key);
+    addToGroup(collection, record);
+  }
+  return collection;
+}
+
+function addToGroup<T>(collection: Collection<T>, record: T): void {
+  const group = collection.spec.groupOf(record);
+  const records = collection.groups.get(group);
+  if (records) records.push(record);
+  else collection.groups.set(group, [record]);
+}
+
+function allRecords<T>(collection: Collection<T>): T[] {
+  return Array.from(collection.groups.values()).flat();
+}
+
+export async function createArchive(dir: string, options: ArchiveOptions = {}): Promise<Archive> {
+  const retentionMs = (options.retentionDays ?? DEFAULT_RETENTION_DAYS) * DAY_MS;
+  const now = options.now ?? (() => Date.now());
+  await fs.promises.mkdir(dir, { recursive: true });
+
+  const open = async <T>(spec: CollectionSpec<T>) =>
+    indexRecords(spec, await readCollection<T>(path.join(dir, spec.file)));
+
+  const forecastKey = (f: ArchivedForecastHour) => `${f.spotId}|${f.profileId}|${Math.floor(f.issuedAt / HOUR_MS)}|${f.validAt}`;
+
+  const buoy = await open<ArchivedBuoyObservation>({
+    file: 'buoy-observations.jsonl',
+    keyOf: o => `${o.station}|${o.timestamp}`,
+    groupOf: o => o.station,
+    timeOf: o => o.timestamp,
+  });
+  const tide = await open<ArchivedTideReading>({
+    file: 'tide-readings.jsonl',
+    keyOf: r => `${r.station}|${r.timestamp}`,
+    groupOf: r => r.station,
+    timeOf: r => r.timestamp,
+  });
+  const forecasts = await open<ArchivedForecastHour>({
+    file: 'forecasts.jsonl',
+    keyOf: forecastKey,
+    groupOf: f => f.spotId,
+    timeOf: f => f.issuedAt,
+  });
+  // Sessions are what people told us, so they are kept for good
+  const sessions = await open<SurfSession>({
+    file: 'sessions.jsonl',
+    keyOf: s => s.id,
+    groupOf: s => s.spotId,
+  });
+  const alertId = (e: ArchivedAlertEvent) => e.type === 'created' ? e.rule.id : e.alertId;
+  const alerts = await open<ArchivedAlertEvent>({
+    file: 'alerts.jsonl',
+    keyOf: e => `${alertId(e)}|${e.type}|${e.at}`,
+    groupOf: alertId,
+  });
+  const profileSwitches = await open<ArchivedProfileSwitch>({
+    file: 'profile-switches.jsonl',
+    keyOf: s => `${s.spotId}|${s.at}|${s.profile?.id ?? ''}`,
+    groupOf: s => s.spotId,
+  });
+  const collections = [buoy, tide, forecasts, sessions, alerts, profileSwitches] as Collection<unknown>[];
+
+  // File writes run one at a time, so a rewrite never races an append
+  let writes: Promise<unknown> = Promise.resolve();
+  const enqueue = <R>(task: () => Promise<R>): Promise<R> => {
+    const run = writes.then(task);
+    writes = run.catch(() => undefined);
+    return run;
+  };
+
+  const expired = <T>(collection: Collection<T>, record: T) =>
+    collection.spec.timeOf !== undefined && collection.spec.timeOf(record) < now() - retentionMs;
+
+  let lastCompactedAt = now();
+  const compact = () => {
+    lastCompactedAt = now();
+    return enqueue(async () => {
+      for (const collection of collections) {
+        const records = allRecords(collection);
+        const kept = records.filter(record => !expired(collection, record));
+        if (kept.length === records.length) continue;
+
+        const file = path.join(dir, collection.spec.file);
+        await fs.promises.writeFile(`${file}.tmp`, toLines(kept as object[]));
+        await fs.promises.rename(`${file}.tmp`, file);
+        const reindexed = indexRecords(collection.spec, kept);
+        collection.groups = reindexed.groups;
+        collection.keys = reindexed.keys;
+        console.log(`🗄️ Dropped ${records.length - kept.length} expired records from ${collection.spec.file}`);
+      }
+    });
+  };
+
+  // Append the records not already archived. Their keys are claimed straight
+  // away so a concurrent call can't write them twice, and released again if
+  // the write fails so a later call can retry.
+  function appendUnique<T extends object>(collection: Collection<T>, records: T[]): Promise<number> {
+    const fresh: T[] = [];
+    for (const record of records) {
+      const key = collection.spec.keyOf(record);
+      if (collection.keys.has(key) || expired(collection, record)) continue;
+      collection.keys.add(key);
+      fresh.push(record);
+    }
+    if (fresh.length === 0) return Promise.resolve(0);
+
+    if (now() - lastCompactedAt >= DAY_MS) {
+      compact().catch(error => console.error('🗄️ Archive compaction failed:', error));
+    }
+    return enqueue(async () => {
+      try {
+        await fs.promises.appendFile(path.join(dir, collection.spec.file), toLines(fresh));
+      } catch (error) {
+        for (const record of fresh) collection.keys.delete(collection.spec.keyOf(record));
+        throw error;
+      }
+      for (const record of fresh) addToGroup(collection, record);
+      return fresh.length;
+    });
+  }
+
+  const group = <T>(collection: Collection<T>, key: string): T[] => collection.groups.get(key)?.slice() ?? [];
+
+  await compact();
+
+  return {
+    recordBuoyObservations: (station, observations) =>
+      appendUnique(buoy, observations.map(observation => ({ station, ...observation }))),
+
+    recordTideReading: reading => appendUnique(tide, [reading]),
+
+    recordForecast(spotId, profileId, buoyStation, hours, issuedAt = now()) {
+      const records: ArchivedForecastHour[] = [];
+      for (const hour of hours) {
+        const validAt = Date.parse(hour.time);
+        if (!hour.surfData || !hour.result || validAt <= issuedAt - HOUR_MS) continue;
+
+        records.push({
+          spotId,
+          profileId,
+          buoyStation,
+          issuedAt,
+          validAt,
+          leadHours: Math.max(0, (validAt - issuedAt) / HOUR_MS),
+          waveHeightFt: hour.surfData.waveHeight,
+          ...(hour.surfData.breakingHeight !== undefined && { breakingHeightFt: hour.surfData.breakingHeight }),
+          wavePeriodSec: hour.surfData.wavePeriod,
+          swellDirectionDeg: hour.surfData.swellDirection,
+          windSpeedKts: hour.surfData.windSpeed,
+          ...(hour.surfData.windGust !== undefined && { windGustKts: hour.surfData.windGust }),
+          windDirectionDeg: hour.surfData.windDirection,
+          tide: hour.surfData.tide,
+          tideHeightFt: hour.surfData.tideHeight ?? null,
+          ...(hour.surfData.swell && { swell: hour.surfData.swell }),
+          ...(hour.surfData.windSea && { windSea: hour.surfData.windSea }),
+          ...(hour.surfData.steepness !== undefined && { steepness: hour.surfData.steepness }),
+          ...(hour.forecast.weather_code !== null && { weatherCode: hour.forecast.weather_code }),
+          score: hour.result.score,
+          surfable: hour.result.surfable,
+        });
+      }
+      return appendUnique(forecasts, records);
+    },
+
+    buoyObservations: station => group(buoy, station),
+    tideReadings: station => group(tide, station),
+    forecasts: spotId => group(forecasts, spotId),
+
+    recordSession: session => appendUnique(sessions, [session]),
+    sessions: spotId => spotId === undefined ? allRecords(sessions) : group(sessions, spotId),
+
+    recordAlertEvent: event => appendUnique(alerts, [event]),
+    alertEvents: () => allRecords(alerts),
+
+    recordProfileSwitch: change => appendUnique(profileSwitches, [change]),
+    profileSwitches: () => allRecords(profileSwitches),
+
+    compact,
+  };
+}
@@ -0,0 +1,153 @@
+import { MINUTE_MS, HOUR_MS } from './time.js';
+
+// In-process cache for upstream responses, keyed per source and request.
+//
+//   fresh (age < ttl)                 served from the cache ("hit")
+//   ttl <= age < ttl + revalidate     served from the cache while a background
+//                                     refresh runs ("revalidating")
+//   older, or nothing cached          fetched now ("miss"); if that fails and
+//                                     the entry is within maxStale it is served
+//                                     anyway, marked "stale"
+//
+// Concurrent callers for the same key share one upstream request. Entries past
+// maxStale can't be served at all and are dropped, and beyond MAX_CACHE_ENTRIES
+// the least recently used go first, so keys built from request parameters
+// can't grow the cache without bound.
+
+export type CacheSource = 'buoy' | 'marine' | 'weather' | 'tides';
+
+export interface CachePolicy {
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+  maxStaleMs: number;
+}
+
+// NDBC and the NOAA water level update every 6-30 minutes, Open-Meteo's
+// marine model a few times a day
+export const DEFAULT_CACHE_POLICIES: { [source in CacheSource]: CachePolicy } = {
+  buoy: { ttlMs: 10 * MINUTE_MS, staleWhileRevalidateMs: 5 * MINUTE_MS, maxStaleMs: 3 * HOUR_MS },
+  marine: { ttlMs: 30 * MINUTE_MS, staleWhileRevalidateMs: 15 * MINUTE_MS, maxStaleMs: 6 * HOUR_MS },
+  weather: { ttlMs: 10 * MINUTE_MS, staleWhileRevalidateMs: 5 * MINUTE_MS, maxStaleMs: 3 * HOUR_MS },
+  tides: { ttlMs: 10 * MINUTE_MS, staleWhileRevalidateMs: 5 * MINUTE_MS, maxStaleMs: 6 * HOUR_MS },
+};
+
+// The policy for a source, with the TTL overridable by CACHE_TTL_<SOURCE>_SECONDS
+export function cachePolicy(source: CacheSource): CachePolicy {
+  const override = Number(process.env[`CACHE_TTL_${source.toUpperCase()}_SECONDS`]);
+  const policy = DEFAULT_CACHE_POLICIES[source];
+  return Number.isFinite(override) && override >= 0 ? { ...policy, ttlMs: override * 1000 } : policy;
+}
+
+export type CacheStatus = 'hit' | 'miss' | 'revalidating' | 'stale';
+
+// How a cached value was served, without the value itself
+export interface CacheInfo {
+  source: CacheSource;
+  status: CacheStatus;
+  ageMs: number;
+  error: string | null; // Why a stale value was served
+}
+
+export interface CacheResult<T> extends CacheInfo {
+  value: T;
+}
+
+export const MAX_CACHE_ENTRIES = 500;
+
+interface Entry {
+  value: unknown;
+  fetchedAt: number;
+  expiresAt: number; // When the entry can no longer be served, even stale
+}
+
+// In least to most recently used order: Maps iterate in insertion order, and
+// an entry is re-inserted whenever it is used
+const entries = new Map<string, Entry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+function touch(key: string, entry: Entry): void {
+  entries.delete(key);
+  entries.set(key, entry);
+}
+
+function evict(now: number): void {
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) entries.delete(key);
+  }
+  for (const key of entries.keys()) {
+    if (entries.size <= MAX_CACHE_ENTRIES) break;
+    entries.delete(key);
+  }
+}
+
+function refresh<T>(key: string, fetcher: () => Promise<T>, policy: CachePolicy, now: () => number): Promise<T> {
+  let pending = inFlight.get(key) as Promise<T> | undefined;
+  if (!pending) {
+    pending = fetcher()
+      .then(value => {
+        const fetchedAt = now();
+        const servableMs = Math.max(policy.maxStaleMs, policy.ttlMs + policy.staleWhileRevalidateMs);
+        touch(key, { value, fetchedAt, expiresAt: fetchedAt + servableMs });
+        evict(fetchedAt);
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+export async function cached<T>(
+  source: CacheSource,
+  key: string,
+  fetcher: () => Promise<T>,
+  options: { policy?: CachePolicy; now?: () => number } = {}
+): Promise<CacheResult<T>> {
+  const policy = options.policy ?? cachePolicy(source);
+  const now = options.now ?? Date.now;
+  const cacheKey = `${source}:${key}`;
+  let entry = entries.get(cacheKey);
+  if (entry && entry.expiresAt <= now()) {
+    entries.delete(cacheKey);
+    entry = undefined;
+  }
+  if (entry) touch(cacheKey, entry);
+  const age = entry ? now() - entry.fetchedAt : Infinity;
+
+  if (entry && age < policy.ttlMs) {
+    return { source, status: 'hit', ageMs: age, error: null, value: entry.value as T };
+  }
+
+  if (entry && age < policy.ttlMs + policy.staleWhileRevalidateMs) {
+    refresh(cacheKey, fetcher, policy, now).catch(error => {
+      console.warn(`🗃️ Background refresh of ${cacheKey} failed:`, error instanceof Error ? error.message : error);
+    });
+    return { source, status: 'revalidating', ageMs: age, error: null, value: entry.value as T };
+  }
+
+  try {
+    const value = await refresh(cacheKey, fetcher, policy, now);
+    return { source, status: 'miss', ageMs: 0, error: null, value };
+  } catch (error) {
+    if (entry && age < policy.maxStaleMs) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`🗃️ Serving stale ${cacheKey} (${Math.round(age / 1000)} s old): ${message}`);
+      return { source, status: 'stale', ageMs: age, error: message, value: entry.value as T };
+    }
+    throw error;
+  }
+}
+
+export function cacheInfo<T>(result: CacheResult<T>): CacheInfo {
+  const { source, status, ageMs, error } = result;
+  return { source, status, ageMs, error };
+}
+
+export function cacheSize(): number {
+  return entries.size;
+}
+
+export function clearCache(): void {
+  entries.clear();
+  inFlight.clear();
+}
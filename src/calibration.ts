@@ -0,0 +1,153 @@
+import { DEFAULT_WEIGHTS, ScoringProfile, WEIGHTED_FACTORS, WeightedFactor } from './profiles.js';
+import { SurfData, SurfabilityResult, calculateSurfability, scoreFactors } from './scoring.js';
+
+// Fit the factor weights and rating thresholds to how surfers rated their
+// sessions. Each 1-5 rating is read as a target score, every factor is scored
+// as the share of its points it earned, and the weights are the non-negative
+// least-squares fit of the targets, pulled towards the current weights so a
+// handful of sessions can't swing them far. Agreement is also measured on
+// each session with a profile fitted to the sessions outside its fold, which
+// is what to expect of sessions the fit hasn't seen.
+
+export interface CalibrationSample {
+  rating: number; // 1-5
+  data: SurfData;
+}
+
+// How well scores agree with the session ratings
+export interface Agreement {
+  scoreMae: number; // Mean absolute difference from the rating's target score
+  ratingMatch: number; // Share of sessions whose rating band matches
+}
+
+export interface CalibrationReport {
+  sessions: number;
+  baseProfileId: string;
+  weights: Record<WeightedFactor, number>;
+  ratingThresholds: ScoringProfile['ratingThresholds'];
+  baseline: Agreement;
+  calibrated: Agreement;
+  heldOut: Agreement; // Each session scored by a fit to the other folds
+  profile: ScoringProfile;
+}
+
+export const MIN_CALIBRATION_SESSIONS = 10;
+
+// A rating of 1 is a score of 0 and 5 is 100, so 3 (marginal), 4 (good) and
+// 5 (excellent) land in the default profile's rating bands
+const targetScore = (rating: number) => (rating - 1) * 25;
+const ratingBand = (rating: number) => rating >= 5 ? 'Excellent' : rating >= 4 ? 'Good' : rating >= 3 ? 'Marginal' : 'Poor';
+
+// How many sessions' worth of evidence the current weights count as
+const PRIOR_SESSIONS = 2;
+const FIT_ITERATIONS = 200;
+// Held-out agreement refits once per fold rather than once per session, so it
+// costs a few fits however many sessions there are
+const HELD_OUT_FOLDS = 5;
+
+// Each sample as the share of points earned per weighted factor, plus the
+// unweighted swell quality points
+function features(sample: CalibrationSample, profile: ScoringProfile): { shares: number[]; offset: number } {
+  const breakdown = scoreFactors(sample.data, { ...profile, weights: undefined });
+  const shares = WEIGHTED_FACTORS.map(name => {
+    const factor = breakdown.find(f => f.factor === name)!;
+    return factor.points / factor.maxPoints;
+  });
+  const offset = breakdown.find(f => f.factor === 'swell_quality')?.points ?? 0;
+  return { shares, offset };
+}
+
+// Ridge-regularized non-negative least squares by coordinate descent
+function fitWeights(rows: { shares: number[]; offset: number; target: number }[], prior: number[]): number[] {
+  const weights = [...prior];
+  const predict = (row: typeof rows[number]) => row.offset + row.shares.reduce((sum, share, j) => sum + share * weights[j], 0);
+
+  for (let iteration = 0; iteration < FIT_ITERATIONS; iteration++) {
+    for (let j = 0; j < weights.length; j++) {
+      let numerator = PRIOR_SESSIONS * prior[j];
+      let denominator = PRIOR_SESSIONS;
+      for (const row of rows) {
+        const residual = row.target - (predict(row) - row.shares[j] * weights[j]);
+        numerator += row.shares[j] * residual;
+        denominator += row.shares[j] ** 2;
+      }
+      weights[j] = Math.max(0, numerator / denominator);
+    }
+  }
+  return weights.map(weight => Math.round(weight * 10) / 10);
+}
+
+// The cutoff that best separates sessions rated at least `minRating` from the
+// rest; ties go to the cutoff closest to the current one
+function fitThreshold(scored: { score: number; rating: number }[], minRating: number, current: number): number {
+  let best = current;
+  let bestCorrect = -1;
+  for (let cutoff = 0; cutoff <= 100; cutoff++) {
+    const correct = scored.filter(s => (s.score >= cutoff) === (s.rating >= minRating)).length;
+    if (correct > bestCorrect || (correct === bestCorrect && Math.abs(cutoff - current) < Math.abs(best - current))) {
+      best = cutoff;
+      bestCorrect = correct;
+    }
+  }
+  return best;
+}
+
+function agreement(samples: CalibrationSample[], results: SurfabilityResult[]): Agreement {
+  return {
+    scoreMae: samples.reduce((sum, sample, i) => sum + Math.abs(results[i].score - targetScore(sample.rating)), 0) / samples.length,
+    ratingMatch: samples.filter((sample, i) => results[i].rating === ratingBand(sample.rating)).length / samples.length,
+  };
+}
+
+export function measureAgreement(samples: CalibrationSample[], profile: ScoringProfile): Agreement {
+  return agreement(samples, samples.map(sample => calculateSurfability(sample.data, profile)));
+}
+
+// Weights, then the thresholds that best fit the scores those weights give
+function fitProfile(samples: CalibrationSample[], base: ScoringProfile): ScoringProfile {
+  const prior = WEIGHTED_FACTORS.map(name => base.weights?.[name] ?? DEFAULT_WEIGHTS[name]);
+  const rows = samples.map(sample => ({ ...features(sample, base), target: targetScore(sample.rating) }));
+  const fitted = fitWeights(rows, prior);
+  const weights = Object.fromEntries(WEIGHTED_FACTORS.map((name, j) => [name, fitted[j]])) as Record<WeightedFactor, number>;
+
+  const weighted = { ...base, weights };
+  const scored = samples.map(sample => ({ score: calculateSurfability(sample.data, weighted).score, rating: sample.rating }));
+  const marginal = fitThreshold(scored, 3, base.ratingThresholds.marginal);
+  const good = Math.max(marginal, fitThreshold(scored, 4, base.ratingThresholds.good));
+  const excellent = Math.max(good, fitThreshold(scored, 5, base.ratingThresholds.excellent));
+
+  return {
+    ...weighted,
+    id: `${base.id}-calibrated`,
+    name: `${base.name} (calibrated)`,
+    description: `${base.name} with weights and thresholds fitted to ${samples.length} rated sessions`,
+    ratingThresholds: { excellent, good, marginal },
+  };
+}
+
+// Score every session with a profile fitted to the sessions in the other
+// folds. Sessions are dealt into folds in turn, so each fold spans the log.
+function heldOutAgreement(samples: CalibrationSample[], base: ScoringProfile): Agreement {
+  const foldOf = (i: number) => i % HELD_OUT_FOLDS;
+  const fits = Array.from({ length: HELD_OUT_FOLDS }, (_, fold) =>
+    fitProfile(samples.filter((_, i) => foldOf(i) !== fold), base));
+  return agreement(samples, samples.map((sample, i) => calculateSurfability(sample.data, fits[foldOf(i)])));
+}
+
+export function calibrate(samples: CalibrationSample[], base: ScoringProfile): CalibrationReport {
+  if (samples.length < MIN_CALIBRATION_SESSIONS) {
+    throw new RangeError(`Calibration needs at least ${MIN_CALIBRATION_SESSIONS} rated sessions, got ${samples.length}`);
+  }
+
+  const profile = fitProfile(samples, base);
+  return {
+    sessions: samples.length,
+    baseProfileId: base.id,
+    weights: profile.weights as Record<WeightedFactor, number>,
+    ratingThresholds: profile.ratingThresholds,
+    baseline: measureAgreement(samples, base),
+    calibrated: measureAgreement(samples, profile),
+    heldOut: heldOutAgreement(samples, base),
+    profile,
+  };
+}
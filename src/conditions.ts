@@ -0,0 +1,383 @@
+import { Archive } from './archive.js';
+import { CacheInfo, CacheResult, cached, cacheInfo } from './cache.js';
+import { HourlyForecast, marineComponent, scoreHourlyForecasts, toHourlyForecasts } from './forecast.js';
+import { estimateBreakingHeight } from './nearshore.js';
+import { BuoyReading, SpectralObservation, parseSpectralFile, latestBuoyReading } from './ndbc.js';
+import { NowcastBias, blendNowcast, buoyModelBias } from './nowcast.js';
+import { MarineResponse } from './openmeteo.js';
+import { ScoringProfile } from './profiles.js';
+import { FieldProvenance, Provenance, markStale } from './provenance.js';
+import { Providers } from './providers.js';
+import { SurfData } from './scoring.js';
+import { Spot } from './spots.js';
+import { TideData, fallbackTideData, fetchTideReadings, summarizeTide } from './tides.js';
+import { DAY_MS } from './time.js';
+import { MergedPoint, fromOpenMeteoHourly, mergeSeries, nearestPoint } from './timeseries.js';
+
+// Current surf conditions and the hourly forecast for a spot, combined from
+// the buoy, the Open-Meteo marine and weather forecasts and NOAA tides
+
+// What the conditions are read from and written to
+export interface ConditionsDependencies {
+  providers: Providers;
+  archive: Archive;
+}
+
+export interface WeatherData {
+  airTemperature: number;
+  waterTemperature: number;
+  weatherCode: number;
+  weatherDescription: string;
+}
+
+// Weather code descriptions based on WMO codes
+const weatherDescriptions: { [key: number]: string } = {
+  0: "Clear sky",
+  1: "Mainly clear",
+  2: "Partly cloudy", 
+  3: "Overcast",
+  45: "Fog",
+  48: "Depositing rime fog",
+  51: "Light drizzle",
+  53: "Moderate drizzle",
+  55: "Dense drizzle",
+  56: "Light freezing drizzle",
+  57: "Dense freezing drizzle",
+  61: "Slight rain",
+  63: "Moderate rain",
+  65: "Heavy rain",
+  66: "Light freezing rain",
+  67: "Heavy freezing rain",
+  71: "Slight snow fall",
+  73: "Moderate snow fall",
+  75: "Heavy snow fall",
+  77: "Snow grains",
+  80: "Slight rain showers",
+  81: "Moderate rain showers",
+  82: "Violent rain showers",
+  85: "Slight snow showers",
+  86: "Heavy snow showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with slight hail",
+  99: "Thunderstorm with heavy hail"
+};
+
+function getWeatherDescription(code: number): string {
+  return weatherDescriptions[code] || "Unknown conditions";
+}
+
+export function cachedBuoyText(providers: Providers, station: string): Promise<CacheResult<string>> {
+  return cached('buoy', station, () => providers.buoy.spectralFile(station));
+}
+
+export function parseBuoyData(buoyText: string): { observations: SpectralObservation[]; reading: BuoyReading | null } {
+  try {
+    const observations = parseSpectralFile(buoyText);
+    const reading = latestBuoyReading(observations);
+    
+    if (!reading) {
+      console.log(`No usable buoy reading in ${observations.length} rows`);
+      return { observations, reading: null };
+    }
+    
+    console.log('Successfully parsed buoy data:', { 
+      waveHeight: reading.waveHeight.toFixed(1) + ' ft', 
+      wavePeriod: reading.wavePeriod.toFixed(1) + ' sec', 
+      swellDirection: reading.swellDirection.toFixed(0) + '°',
+      observedAt: reading.observedAt
+    });
+    
+    return { observations, reading };
+  } catch (error) {
+    console.error('Error parsing buoy data:', error);
+    return { observations: [], reading: null };
+  }
+}
+
+// Thrown when there is no trustworthy wave data to score
+export class InsufficientDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientDataError';
+  }
+}
+
+export interface SpotConditions {
+  tideData: TideData;
+  currentSurfData: SurfData;
+  hourlyForecasts: HourlyForecast[];
+  weather: WeatherData;
+  dataSource: string;
+  buoyObservedAt: string | null;
+  nowcast: NowcastBias | null; // Buoy-minus-model bias blended into the forecast hours
+  provenance: Provenance;
+  cache: CacheInfo[];
+}
+
+const TIDE_SOURCES = {
+  observed: { source: 'NOAA Tides water level', fallback: false, defaulted: false },
+  predicted: { source: 'NOAA Tides predictions', fallback: true, defaulted: false },
+  estimated: { source: 'NOAA Tides high/low midpoint', fallback: true, defaulted: false },
+  default: { source: 'default', fallback: true, defaulted: true },
+};
+
+function isoFromUnix(seconds: number | undefined): string | null {
+  return seconds === undefined ? null : new Date(seconds * 1000).toISOString();
+}
+
+// Where each current input came from, for the `provenance` block
+function describeProvenance(
+  spot: Spot,
+  tideData: TideData,
+  buoyData: BuoyReading | null,
+  marineJson: MarineResponse | null,
+  marineNow: MergedPoint | null,
+  weatherObservedAt: string | null
+): Provenance {
+  const marineNowAt = marineNow ? new Date(marineNow.timestamp).toISOString() : null;
+  const waves: FieldProvenance = buoyData
+    ? { source: `NDBC buoy ${spot.buoyStation}`, cacheSource: 'buoy', observedAt: buoyData.observedAt, fallback: false, defaulted: false, stale: false }
+    : {
+        source: 'Open-Meteo Marine forecast',
+        cacheSource: 'marine',
+        observedAt: marineNowAt,
+        fallback: true,
+        defaulted: false,
+        stale: false,
+      };
+  const weather: FieldProvenance = {
+    source: 'Open-Meteo Weather',
+    cacheSource: 'weather',
+    observedAt: weatherObservedAt,
+    fallback: false,
+    defaulted: false,
+    stale: false,
+  };
+
+  let waterTemperature: FieldProvenance;
+  if (marineJson?.current?.sea_surface_temperature !== undefined) {
+    waterTemperature = { source: 'Open-Meteo Marine', cacheSource: 'marine', observedAt: isoFromUnix(marineJson.current.time), fallback: false, defaulted: false, stale: false };
+  } else if ((marineNow?.values.sea_surface_temperature ?? null) !== null) {
+    waterTemperature = { source: 'Open-Meteo Marine forecast', cacheSource: 'marine', observedAt: marineNowAt, fallback: true, defaulted: false, stale: false };
+  } else {
+    waterTemperature = { source: 'default', cacheSource: null, observedAt: null, fallback: true, defaulted: true, stale: false };
+  }
+
+  const tide = TIDE_SOURCES[tideData.heightSource];
+  return {
+    waveHeight: waves,
+    wavePeriod: waves,
+    swellDirection: waves,
+    wind: weather,
+    tide: {
+      ...tide,
+      cacheSource: tide.defaulted ? null : 'tides',
+      observedAt: tideData.observedAt,
+      stale: false,
+    },
+    waterTemperature,
+    airTemperature: weather,
+  };
+}
+
+// Fetch buoy, marine, weather and tide data for a spot and combine them into
+// the current surf conditions plus the hourly forecast. Each upstream
+// response goes through the cache, and how it was served is returned in
+// `cache` for the response headers.
+export async function fetchSpotConditions(deps: ConditionsDependencies, spot: Spot, forecastDays = 2): Promise<SpotConditions> {
+  const { providers, archive } = deps;
+  const cache: CacheInfo[] = [];
+
+  // Fetch real tide data, with predictions covering the forecast horizon
+  let tideData: TideData;
+  try {
+    const tides = await cached('tides', `${spot.tideStation}:${forecastDays}`, () =>
+      fetchTideReadings(providers.tides, spot, (forecastDays + 1) * DAY_MS)
+    );
+    cache.push(cacheInfo(tides));
+    // Cached readings can be minutes old, so the state is worked out for now
+    tideData = summarizeTide(tides.value);
+  } catch (error) {
+    console.error('❌ Error fetching tide data:', error);
+    tideData = fallbackTideData();
+  }
+  console.log('Tide data fetched:', tideData.state, tideData.currentHeight);
+  if (tideData.observedAt) {
+    archiveInBackground('tide reading', archive.recordTideReading({
+      station: spot.tideStation,
+      timestamp: Date.parse(tideData.observedAt),
+      height: tideData.currentHeight,
+    }));
+  }
+  
+  // Fetch buoy data with error handling
+  let buoyData = null;
+  try {
+    const buoyText = await cachedBuoyText(providers, spot.buoyStation);
+    cache.push(cacheInfo(buoyText));
+    const { observations, reading } = parseBuoyData(buoyText.value);
+    archiveInBackground('buoy observations', archive.recordBuoyObservations(spot.buoyStation, observations));
+    buoyData = reading;
+  } catch (error) {
+    console.warn('Failed to fetch buoy data:', error);
+  }
+
+  // Try marine weather data first, then fall back to regular forecast API
+  let marineData: MarineResponse | null = null;
+
+  try {
+    // Try marine API first for wave data AND water temperature
+    const marine = await cached('marine', `${spot.latitude},${spot.longitude}:${forecastDays}`, () =>
+      providers.forecast.marine(spot, forecastDays)
+    );
+    cache.push(cacheInfo(marine));
+    marineData = marine.value;
+  } catch (error) {
+    console.warn('Marine API failed, falling back to forecast API:', error);
+  }
+
+  // Get regular weather data (wind + air temperature + weather conditions)
+  const weather = await cached('weather', `${spot.latitude},${spot.longitude}:${forecastDays}`, () =>
+    providers.forecast.weather(spot, forecastDays)
+  );
+  cache.push(cacheInfo(weather));
+
+  const marineJson = marineData;
+  const weatherJson = weather.value;
+
+  // Join marine and weather hours on their real (UTC) timestamps
+  const mergedHours = mergeSeries([
+    fromOpenMeteoHourly('marine', marineJson?.hourly, {
+      wave_height: 'wave_height',
+      wave_period: 'wave_period',
+      swell_direction: 'swell_wave_direction',
+      swell_height: 'swell_wave_height',
+      swell_period: 'swell_wave_period',
+      wind_wave_height: 'wind_wave_height',
+      wind_wave_period: 'wind_wave_period',
+      wind_wave_direction: 'wind_wave_direction',
+      sea_surface_temperature: 'sea_surface_temperature',
+    }),
+    fromOpenMeteoHourly('weather', weatherJson.hourly, {
+      air_temperature: 'temperature_2m',
+      wind_speed: 'wind_speed_10m',
+      wind_direction: 'wind_direction_10m',
+      wind_gust: 'wind_gusts_10m',
+      weather_code: 'weather_code',
+    }),
+  ]);
+  const marineNow = nearestPoint(mergedHours, new Date());
+
+  // Use buoy data if available, otherwise the marine forecast for this hour
+  const marineHeight = marineNow?.values.wave_height ?? null;
+  const waveHeight = buoyData?.waveHeight ?? (marineHeight !== null ? marineHeight * 3.28084 : null);
+  const wavePeriod = buoyData?.wavePeriod ?? marineNow?.values.wave_period ?? null;
+  const swellDirection = buoyData?.swellDirection ?? marineNow?.values.swell_direction ?? null;
+
+  if (waveHeight === null || wavePeriod === null || swellDirection === null) {
+    throw new InsufficientDataError(
+      `No reliable wave data for ${spot.name}: buoy ${spot.buoyStation} and the marine forecast are both unavailable`
+    );
+  }
+
+  // Extract weather data
+  const airTemperature = weatherJson.current.temperature_2m;
+  const weatherCode = weatherJson.current.weather_code;
+  const weatherDescription = getWeatherDescription(weatherCode);
+  
+  // Water temperature from marine API or fallback
+  const waterTemperature = marineJson?.current?.sea_surface_temperature ?? 
+                          marineNow?.values.sea_surface_temperature ?? 
+                          22; // Fallback to ~72°F in Celsius
+
+  // Debug logging
+  console.log('Current conditions source:', {
+    buoyData: !!buoyData,
+    marineData: !!marineJson?.hourly,
+    tideData: tideData.state,
+    waveHeight,
+    wavePeriod,
+    swellDirection,
+    airTemperature,
+    waterTemperature,
+    weatherCode,
+    weatherDescription
+  });
+
+  const windSpeed = weatherJson.current.wind_speed_10m * 0.539957; // Convert to knots
+  const windDirection = weatherJson.current.wind_direction_10m;
+  // Gusts are optional; without them there is no gust penalty
+  const gustKmh = weatherJson.current.wind_gusts_10m;
+  const windGust = typeof gustKmh === 'number' ? gustKmh * 0.539957 : undefined;
+
+  // Current surf conditions with real tide data
+  const currentSurfData: SurfData = {
+    waveHeight,
+    ...(spot.nearshore && { breakingHeight: estimateBreakingHeight(waveHeight, wavePeriod, swellDirection, spot.nearshore).heightFt }),
+    wavePeriod,
+    swellDirection,
+    windDirection,
+    windSpeed,
+    windGust,
+    tide: tideData.state,
+    tideHeight: tideData.currentHeight,
+    // Swell / wind-sea partitions come from the same source as the total height
+    ...(buoyData
+      ? {
+          swell: buoyData.swell ?? undefined,
+          windSea: buoyData.windSea ?? undefined,
+          steepness: buoyData.steepness ?? undefined,
+        }
+      : {
+          swell: marineComponent(marineNow?.values.swell_height ?? null, marineNow?.values.swell_period ?? null, marineNow?.values.swell_direction ?? null),
+          windSea: marineComponent(marineNow?.values.wind_wave_height ?? null, marineNow?.values.wind_wave_period ?? null, marineNow?.values.wind_wave_direction ?? null),
+        }),
+  };
+
+  // Pull the forecast hours around the buoy reading towards it, so the
+  // forecast doesn't jump away from the current conditions
+  const nowcast = buoyData ? buoyModelBias(buoyData, mergedHours) : null;
+  const modelForecasts = toHourlyForecasts(mergedHours);
+  const hourlyForecasts = nowcast ? blendNowcast(modelForecasts, nowcast) : modelForecasts;
+  if (nowcast) {
+    console.log(`🎯 Buoy nowcast bias: ${nowcast.waveHeightFt.toFixed(1)} ft, ${nowcast.wavePeriodSec.toFixed(1)} s`);
+  }
+  const incompleteHours = hourlyForecasts.filter(hour => hour.missing.length > 0).length;
+  if (incompleteHours > 0) {
+    console.warn(`⚠️ ${incompleteHours} of ${hourlyForecasts.length} forecast hours are missing inputs`);
+  }
+
+  return {
+    tideData,
+    currentSurfData,
+    hourlyForecasts,
+    weather: { airTemperature, waterTemperature, weatherCode, weatherDescription },
+    dataSource: buoyData ? 'NOAA Buoy + NOAA Tides + Weather API' : 'Marine + NOAA Tides + Weather API',
+    buoyObservedAt: buoyData?.observedAt ?? null,
+    nowcast,
+    provenance: markStale(
+      describeProvenance(spot, tideData, buoyData, marineJson, marineNow, isoFromUnix(weatherJson.current.time)),
+      cache
+    ),
+    cache,
+  };
+}
+
+// Archiving is best effort: a disk problem is logged, and never fails the
+// request or throws away the data it was archiving
+function archiveInBackground(what: string, write: Promise<number>) {
+  write.catch(error => console.error(`🗄️ Failed to archive ${what}:`, error));
+}
+
+// Issue a forecast for a spot and keep it so it can be verified against the
+// buoy later. The verification job does this once an hour; requests don't, so
+// the archive grows by one forecast per spot and hour however busy it gets.
+export async function archiveForecast(deps: ConditionsDependencies, spot: Spot, profile: ScoringProfile, forecastDays = 3): Promise<number> {
+  const { tideData, hourlyForecasts } = await fetchSpotConditions(deps, spot, forecastDays);
+  try {
+    return await deps.archive.recordForecast(spot.id, profile.id, spot.buoyStation, scoreHourlyForecasts(hourlyForecasts, tideData, profile, spot));
+  } catch (error) {
+    console.error('🗄️ Failed to archive forecast:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,203 @@
+import { ScoringProfile } from './profiles.js';
+import { SurfData, SurfabilityResult, WaveComponent, calculateSurfability } from './scoring.js';
+import { NearshoreTransform, estimateBreakingHeight } from './nearshore.js';
+import { NowcastCorrection } from './nowcast.js';
+import { SafetyAssessment, applySafety, assessSafety } from './safety.js';
+import { GeoPoint, isDaylight } from './sun.js';
+import { TideData, tideAt } from './tides.js';
+import { MergedPoint } from './timeseries.js';
+import { DEFAULT_VOCABULARY, ForecastPhrasing, Phrasing, phraseSeed, pickPhrase } from './vocabulary.js';
+
+// One hour of combined marine + weather forecast, in API units
+// (wave height in meters, wind speed in km/h). Inputs no source could provide
+// are null and named in `missing`.
+export interface HourlyForecast {
+  time: string;
+  wave_height: number | null;
+  wave_period: number | null;
+  swell_direction: number | null;
+  wind_speed: number | null;
+  wind_direction: number | null;
+  wind_gust: number | null; // Optional: a missing gust doesn't leave the hour unscored
+  weather_code: number | null; // WMO code; optional like wind_gust
+  air_temperature: number | null; // °C, optional
+  water_temperature: number | null; // °C, optional
+  swell_height: number | null;
+  swell_period: number | null;
+  wind_wave_height: number | null;
+  wind_wave_period: number | null;
+  wind_wave_direction: number | null;
+  missing: string[];
+  correction?: NowcastCorrection; // Buoy nowcast adjustment already included in wave_height and wave_period
+}
+
+export interface ScoredHour {
+  time: string;
+  forecast: HourlyForecast;
+  surfData: SurfData | null; // null when the hour is missing inputs
+  result: SurfabilityResult | null; // Not surfable while a hazard overrides it
+  safety: SafetyAssessment | null;
+  daylight: boolean; // between civil dawn and civil dusk
+}
+
+const FORECAST_FIELDS = ['wave_height', 'wave_period', 'swell_direction', 'wind_speed', 'wind_direction'];
+
+export function toHourlyForecasts(points: MergedPoint[]): HourlyForecast[] {
+  return points.map(point => ({
+    time: point.time,
+    wave_height: point.values.wave_height ?? null,
+    wave_period: point.values.wave_period ?? null,
+    swell_direction: point.values.swell_direction ?? null,
+    wind_speed: point.values.wind_speed ?? null,
+    wind_direction: point.values.wind_direction ?? null,
+    wind_gust: point.values.wind_gust ?? null,
+    weather_code: point.values.weather_code ?? null,
+    air_temperature: point.values.air_temperature ?? null,
+    water_temperature: point.values.sea_surface_temperature ?? null,
+    swell_height: point.values.swell_height ?? null,
+    swell_period: point.values.swell_period ?? null,
+    wind_wave_height: point.values.wind_wave_height ?? null,
+    wind_wave_period: point.values.wind_wave_period ?? null,
+    wind_wave_direction: point.values.wind_wave_direction ?? null,
+    missing: point.missing.filter(field => FORECAST_FIELDS.includes(field)),
+  }));
+}
+
+// A marine-model swell or wind-sea partition converted to feet
+export function marineComponent(heightM: number | null, periodSec: number | null, directionDeg: number | null): WaveComponent | undefined {
+  if (heightM === null || periodSec === null) return undefined;
+  return { height: heightM * 3.28084, period: periodSec, direction: directionDeg };
+}
+
+// Convert each forecast hour to surf units and score it. Hours with missing
+// inputs are left unscored instead of being filled with made-up values. Each
+// hour gets its own tide from the high/low predictions; hours past the end of
+// the predictions have no tide, earn no tide points and name 'tide' in
+// `missing`, rather than borrowing the current state. Dark
+// hours are still scored, but flagged with `daylight: false`. Spots with a
+// nearshore transformation are scored on the estimated breaking height.
+// Hazardous hours keep their score but are not surfable. With a phrasing,
+// fun ratings come from its vocabulary, seeded by the spot and the hour.
+export function scoreHourlyForecasts(
+  hourlyForecasts: HourlyForecast[],
+  tide: TideData,
+  profile: ScoringProfile,
+  location: GeoPoint & { nearshore?: NearshoreTransform },
+  phrasing?: ForecastPhrasing
+): ScoredHour[] {
+  return hourlyForecasts.map(hourData => {
+    const daylight = isDaylight(Date.parse(hourData.time), location);
+    if (
+      hourData.wave_height === null || hourData.wave_period === null || hourData.swell_direction === null ||
+      hourData.wind_speed === null || hourData.wind_direction === null
+    ) {
+      return { time: hourData.time, forecast: hourData, surfData: null, result: null, safety: null, daylight };
+    }
+
+    const hourTide = tideAt(tide.events, Date.parse(hourData.time));
+    const waveHeight = hourData.wave_height * 3.28084; // Convert meters to feet
+    const surfData: SurfData = {
+      waveHeight,
+      ...(location.nearshore && {
+        breakingHeight: estimateBreakingHeight(waveHeight, hourData.wave_period, hourData.swell_direction, location.nearshore).heightFt,
+      }),
+      wavePeriod: hourData.wave_period,
+      swellDirection: hourData.swell_direction,
+      windDirection: hourData.wind_direction,
+      windSpeed: hourData.wind_speed * 0.539957, // Convert km/h to knots
+      windGust: hourData.wind_gust !== null ? hourData.wind_gust * 0.539957 : undefined,
+      tide: hourTide?.state ?? null,
+      tideHeight: hourTide?.height,
+      swell: marineComponent(hourData.swell_height, hourData.swell_period, hourData.swell_direction),
+      windSea: marineComponent(hourData.wind_wave_height, hourData.wind_wave_period, hourData.wind_wave_direction),
+    };
+
+    const safety = assessSafety(surfData, hourData.weather_code, profile);
+    const hourPhrasing = phrasing && { vocabulary: phrasing.vocabulary, seed: phraseSeed(phrasing.spotId, Date.parse(hourData.time)) };
+    const result = applySafety(calculateSurfability(surfData, profile, hourPhrasing), safety, hourPhrasing);
+    const forecast = hourTide ? hourData : { ...hourData, missing: [...hourData.missing, 'tide'] };
+    return { time: hourData.time, forecast, surfData, result, safety, daylight };
+  });
+}
+
+// Hours from now on
+export function upcomingHours<T extends { time: string }>(hours: T[], now: Date = new Date()): T[] {
+  return hours.filter(hour => new Date(hour.time) >= now);
+}
+
+// The flat-day message comes from the phrasing's vocabulary; without one it is
+// picked from the default pack by the forecast's first hour
+export function getConditionsDuration(scoredHours: ScoredHour[], profile: ScoringProfile, now: Date = new Date(), phrasing?: Phrasing): string {
+  if (!scoredHours || scoredHours.length === 0) {
+    return 'No forecast data available.';
+  }
+
+  const futureForecasts = upcomingHours(scoredHours, now).slice(0, 24); // Only look at next 24 hours
+
+  // Track different quality streaks
+  let goodStreaks: number[] = [];
+  let marginalStreaks: number[] = [];
+  let currentGoodStreak = 0;
+  let currentMarginalStreak = 0;
+  let totalSurfableHours = 0;
+
+  for (let i = 0; i < futureForecasts.length; i++) {
+    // Dark or hazardous hours can't be surfed, so they end a streak like poor conditions
+    const { daylight, safety } = futureForecasts[i];
+    const result = daylight && safety?.safe !== false ? futureForecasts[i].result : null;
+
+    if (result && result.score >= profile.ratingThresholds.good) { // Good conditions
+      currentGoodStreak++;
+      if (currentMarginalStreak > 0) {
+        marginalStreaks.push(currentMarginalStreak);
+        currentMarginalStreak = 0;
+      }
+      totalSurfableHours++;
+    } else if (result && result.score >= profile.ratingThresholds.marginal) { // Marginal but surfable
+      currentMarginalStreak++;
+      if (currentGoodStreak > 0) {
+        goodStreaks.push(currentGoodStreak);
+        currentGoodStreak = 0;
+      }
+      totalSurfableHours++;
+    } else { // Poor conditions, missing data, dark or hazardous
+      if (currentGoodStreak > 0) {
+        goodStreaks.push(currentGoodStreak);
+        currentGoodStreak = 0;
+      }
+      if (currentMarginalStreak > 0) {
+        marginalStreaks.push(currentMarginalStreak);
+        currentMarginalStreak = 0;
+      }
+    }
+  }
+
+  // Add final streaks
+  if (currentGoodStreak > 0) goodStreaks.push(currentGoodStreak);
+  if (currentMarginalStreak > 0) marginalStreaks.push(currentMarginalStreak);
+
+  const maxGoodStreak = goodStreaks.length > 0 ? Math.max(...goodStreaks) : 0;
+  const maxMarginalStreak = marginalStreaks.length > 0 ? Math.max(...marginalStreaks) : 0;
+
+  // Generate fun, condition-appropriate messages
+  if (maxGoodStreak >= 8) {
+    return 'Good surf for most of the day!';
+  } else if (maxGoodStreak >= 6) {
+    return `Good surf for ${maxGoodStreak} solid hours!`;
+  } else if (maxGoodStreak >= 3) {
+    return `Good surf for about ${maxGoodStreak} hours`;
+  } else if (maxGoodStreak >= 1) {
+    return `Brief good surf window (~${maxGoodStreak}hr)`;
+  } else if (maxMarginalStreak >= 8) {
+    return 'Marginal conditions for most of the day';
+  } else if (maxMarginalStreak >= 4) {
+    return `Marginal conditions for ${maxMarginalStreak} hours`;
+  } else if (maxMarginalStreak >= 2) {
+    return `Sketchy conditions for ${maxMarginalStreak} hours`;
+  } else if (totalSurfableHours >= 1) {
+    return 'Brief surfable windows expected';
+  } else {
+    const vocabulary = phrasing?.vocabulary ?? DEFAULT_VOCABULARY;
+    return pickPhrase(vocabulary.flatMessages, phrasing?.seed ?? scoredHours[0].time);
+  }
+}
@@ -0,0 +1,107 @@
+import { SurfData } from './scoring.js';
+
+// What to bring: wetsuit and accessories from the water temperature and how
+// cold it feels out of the water, and a board for the size and shape of the
+// waves.
+
+export interface WetsuitRecommendation {
+  suit: string; // e.g. "3/2 mm fullsuit"
+  thicknessMm: number[] | null; // Torso/limb thickness; null without a wetsuit
+  boots: boolean;
+  hood: boolean;
+  gloves: boolean;
+  feelsLikeC: number; // Air temperature with wind chill
+  reason: string;
+}
+
+export type BoardClass = 'longboard' | 'mid' | 'fish' | 'shortboard' | 'step-up';
+
+export interface BoardRecommendation {
+  board: BoardClass;
+  reason: string;
+}
+
+export interface GearRecommendation {
+  wetsuit: WetsuitRecommendation | null; // null without a water temperature
+  board: BoardRecommendation;
+}
+
+interface WetsuitBand {
+  minWaterF: number;
+  suit: string;
+  thicknessMm: number[] | null;
+  boots: boolean;
+  hood: boolean;
+  gloves: boolean;
+}
+
+// Common wetsuit chart by water temperature, warmest first
+const WETSUIT_BANDS: WetsuitBand[] = [
+  { minWaterF: 73, suit: 'boardshorts or swimsuit', thicknessMm: null, boots: false, hood: false, gloves: false },
+  { minWaterF: 68, suit: '2 mm spring suit or wetsuit top', thicknessMm: [2], boots: false, hood: false, gloves: false },
+  { minWaterF: 63, suit: '3/2 mm fullsuit', thicknessMm: [3, 2], boots: false, hood: false, gloves: false },
+  { minWaterF: 58, suit: '4/3 mm fullsuit', thicknessMm: [4, 3], boots: false, hood: false, gloves: false },
+  { minWaterF: 53, suit: '4/3 mm fullsuit', thicknessMm: [4, 3], boots: true, hood: false, gloves: false },
+  { minWaterF: 48, suit: '5/4 mm hooded fullsuit', thicknessMm: [5, 4], boots: true, hood: true, gloves: true },
+  { minWaterF: -Infinity, suit: '6/5 mm hooded fullsuit', thicknessMm: [6, 5], boots: true, hood: true, gloves: true },
+];
+
+// Out of the water for long enough to matter: when it feels this much colder
+// than the water, go one band warmer
+const COLD_AIR_MARGIN_F = 10;
+
+const toFahrenheit = (celsius: number) => celsius * 9 / 5 + 32;
+
+// NWS wind chill, defined for 10°C and below with wind over 4.8 km/h;
+// otherwise the air temperature
+export function windChill(airC: number, windKts: number): number {
+  const windKmh = windKts * 1.852;
+  if (airC > 10 || windKmh <= 4.8) return airC;
+  const v = Math.pow(windKmh, 0.16);
+  return 13.12 + 0.6215 * airC - 11.37 * v + 0.3965 * airC * v;
+}
+
+export function recommendWetsuit(waterC: number, airC: number, windKts: number): WetsuitRecommendation {
+  const waterF = toFahrenheit(waterC);
+  const feelsLikeC = windChill(airC, windKts);
+  let index = WETSUIT_BANDS.findIndex(band => waterF >= band.minWaterF);
+
+  let reason = `${waterF.toFixed(0)}°F water`;
+  if (toFahrenheit(feelsLikeC) < waterF - COLD_AIR_MARGIN_F && index < WETSUIT_BANDS.length - 1) {
+    index++;
+    reason += `, one step warmer for ${toFahrenheit(feelsLikeC).toFixed(0)}°F air with wind chill`;
+  }
+
+  const { suit, thicknessMm, boots, hood, gloves } = WETSUIT_BANDS[index];
+  return { suit, thicknessMm, boots, hood, gloves, feelsLikeC, reason };
+}
+
+// Board class for the breaking height: small or weak waves need volume and
+// length, big long-period swell needs a longer, narrower board to get in early
+// and hold a line
+export function recommendBoard(data: SurfData): BoardRecommendation {
+  const height = data.breakingHeight ?? data.waveHeight;
+  const steep = data.steepness === 'STEEP' || data.steepness === 'VERY_STEEP';
+  const size = `${height.toFixed(1)} ft`;
+
+  if (height >= 6 && (data.wavePeriod >= 11 || steep)) {
+    return { board: 'step-up', reason: `${size} at ${data.wavePeriod.toFixed(0)} s is powerful surf` };
+  }
+  if (height < 2) {
+    return { board: 'longboard', reason: `${size} needs paddle power and glide` };
+  }
+  if (height < 3.5) {
+    return data.wavePeriod >= 10 && !steep
+      ? { board: 'mid', reason: `${size} long-period swell breaks soft and full` }
+      : { board: 'fish', reason: `${size} short-period waves need a wide, fast board` };
+  }
+  return { board: 'shortboard', reason: `${size} at ${data.wavePeriod.toFixed(0)} s has enough push for a shortboard` };
+}
+
+export function recommendGear(data: SurfData, waterC: number | null, airC: number | null): GearRecommendation {
+  return {
+    // Without an air temperature, assume it feels like the water
+    wetsuit: waterC !== null ? recommendWetsuit(waterC, airC ?? waterC, data.windSpeed) : null,
+    board: recommendBoard(data),
+  };
+}
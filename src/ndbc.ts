@@ -0,0 +1,196 @@
+import type { WaveComponent } from './scoring.js';
+import { Transport } from './transport.js';
+
+// Parser for NDBC realtime spectral wave summaries (`<station>.spec`), e.g.
+//
+//   #YY  MM DD hh mm WVHT  SwH  SwP  WWH  WWP SwD WWD  STEEPNESS  APD MWD
+//   #yr  mo dy hr mn    m    m  sec    m  sec  -  degT     -      sec degT
+//   2025 05 27 15 30  1.1  1.0 10.0  0.4  4.0 ESE   E      SWELL  6.5 105
+//
+// Columns are located from the header line, rows are newest first, times are
+// UTC and `MM` marks a missing value for that field only.
+
+export interface SpectralObservation {
+  time: string; // ISO 8601, UTC
+  timestamp: number; // epoch milliseconds
+  waveHeightM: number | null; // WVHT: significant wave height
+  swellHeightM: number | null; // SwH
+  swellPeriodSec: number | null; // SwP
+  swellDirectionDeg: number | null; // SwD (compass point converted to degrees)
+  windWaveHeightM: number | null; // WWH
+  windWavePeriodSec: number | null; // WWP
+  windWaveDirectionDeg: number | null; // WWD (compass point converted to degrees)
+  steepness: string | null; // STEEPNESS: SWELL, AVERAGE, STEEP or VERY_STEEP
+  averagePeriodSec: number | null; // APD
+  meanWaveDirectionDeg: number | null; // MWD
+}
+
+export interface BuoyReading {
+  waveHeight: number; // feet
+  wavePeriod: number; // seconds
+  swellDirection: number; // degrees
+  observedAt: string; // ISO 8601, UTC
+  swell: WaveComponent | null;
+  windSea: WaveComponent | null;
+  steepness: string | null;
+}
+
+export class NdbcParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NdbcParseError';
+  }
+}
+
+const MISSING = 'MM';
+const REQUIRED_COLUMNS = ['YY', 'MM', 'DD', 'hh', 'mm'];
+
+const COMPASS_POINTS = [
+  'N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE',
+  'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW',
+];
+
+export function compassToDegrees(point: string): number | null {
+  const index = COMPASS_POINTS.indexOf(point.toUpperCase());
+  return index === -1 ? null : index * 22.5;
+}
+
+// A swell or wind-sea partition in feet, if both its height and period were reported
+function waveComponent(heightM: number | null, periodSec: number | null, directionDeg: number | null): WaveComponent | null {
+  if (heightM === null || periodSec === null) return null;
+  return { height: heightM * 3.28084, period: periodSec, direction: directionDeg };
+}
+
+// Physically plausible ranges; readings outside them are treated as missing
+const HEIGHT_RANGE = { min: 0, max: 20 }; // meters
+const PERIOD_RANGE = { min: 2, max: 30 }; // seconds
+
+function inRange(value: number | null, range: { min: number; max: number }): number | null {
+  return value !== null && value >= range.min && value <= range.max ? value : null;
+}
+
+function parseNumber(raw: string | undefined): number | null {
+  if (raw === undefined || raw === MISSING) return null;
+  const value = parseFloat(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+function parseDirection(raw: string | undefined): number | null {
+  if (raw === undefined || raw === MISSING) return null;
+  const numeric = parseNumber(raw);
+  if (numeric !== null) {
+    return numeric >= 0 && numeric <= 360 ? numeric % 360 : null;
+  }
+  return compassToDegrees(raw);
+}
+
+export function parseSpectralFile(text: string): SpectralObservation[] {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+  // The header is the first comment line naming the date columns
+  const headerLine = lines.find(line => line.startsWith('#') && /\bYY\b/.test(line));
+  if (!headerLine) {
+    throw new NdbcParseError('No "#YY MM DD hh mm ..." header line found');
+  }
+
+  const columns = headerLine.replace(/^#/, '').trim().split(/\s+/);
+  const missingColumns = REQUIRED_COLUMNS.filter(name => !columns.includes(name));
+  if (missingColumns.length > 0) {
+    throw new NdbcParseError(`Header is missing date columns: ${missingColumns.join(', ')}`);
+  }
+  const columnIndex = (name: string) => columns.indexOf(name);
+
+  const observations: SpectralObservation[] = [];
+  for (const line of lines) {
+    if (line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    if (parts.length !== columns.length) {
+      console.warn(`Skipping NDBC row with ${parts.length} fields (expected ${columns.length}):`, line);
+      continue;
+    }
+
+    const field = (name: string): string | undefined => {
+      const index = columnIndex(name);
+      return index === -1 ? undefined : parts[index];
+    };
+
+    const [year, month, day, hour, minute] = REQUIRED_COLUMNS.map(name => parseInt(field(name) ?? '', 10));
+    const timestamp = Date.UTC(year, month - 1, day, hour, minute);
+    if (!Number.isFinite(timestamp)) {
+      console.warn('Skipping NDBC row with invalid timestamp:', line);
+      continue;
+    }
+
+    const steepness = field('STEEPNESS');
+
+    observations.push({
+      time: new Date(timestamp).toISOString(),
+      timestamp,
+      waveHeightM: inRange(parseNumber(field('WVHT')), HEIGHT_RANGE),
+      swellHeightM: inRange(parseNumber(field('SwH')), HEIGHT_RANGE),
+      swellPeriodSec: inRange(parseNumber(field('SwP')), PERIOD_RANGE),
+      swellDirectionDeg: parseDirection(field('SwD')),
+      windWaveHeightM: inRange(parseNumber(field('WWH')), HEIGHT_RANGE),
+      windWavePeriodSec: inRange(parseNumber(field('WWP')), PERIOD_RANGE),
+      windWaveDirectionDeg: parseDirection(field('WWD')),
+      steepness: steepness === undefined || steepness === MISSING || steepness === 'N/A' ? null : steepness,
+      averagePeriodSec: inRange(parseNumber(field('APD')), PERIOD_RANGE),
+      meanWaveDirectionDeg: parseDirection(field('MWD')),
+    });
+  }
+
+  return observations.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// A single observation as a reading, if it has a usable height, period and
+// direction. Swell period is preferred, falling back to the average period
+// (APD).
+export function toBuoyReading(observation: SpectralObservation): BuoyReading | null {
+  const wavePeriod = observation.swellPeriodSec ?? observation.averagePeriodSec;
+  const swellDirection = observation.meanWaveDirectionDeg ?? observation.swellDirectionDeg;
+
+  if (observation.waveHeightM === null || wavePeriod === null || swellDirection === null) {
+    return null;
+  }
+  return {
+    waveHeight: observation.waveHeightM * 3.28084, // Convert meters to feet
+    wavePeriod,
+    swellDirection,
+    observedAt: observation.time,
+    swell: waveComponent(observation.swellHeightM, observation.swellPeriodSec, observation.swellDirectionDeg),
+    windSea: waveComponent(observation.windWaveHeightM, observation.windWavePeriodSec, observation.windWaveDirectionDeg),
+    steepness: observation.steepness,
+  };
+}
+
+// The newest usable reading
+export function latestBuoyReading(observations: SpectralObservation[]): BuoyReading | null {
+  for (const observation of observations) {
+    const reading = toBuoyReading(observation);
+    if (reading) return reading;
+  }
+  return null;
+}
+
+// Upstream source of raw spectral wave summaries
+export interface BuoyProvider {
+  // The station's `.spec` file, about 45 days of observations
+  spectralFile(station: string): Promise<string>;
+}
+
+export function createNdbcProvider(transport: Transport): BuoyProvider {
+  return {
+    async spectralFile(station) {
+      const res = await transport(`https://www.ndbc.noaa.gov/data/realtime2/${station}.spec`, {
+        signal: AbortSignal.timeout(10000) // 10 second timeout
+      });
+
+      if (!res.ok) {
+        throw new Error(`Buoy API returned ${res.status}`);
+      }
+
+      return res.text();
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// Offshore-to-nearshore wave transformation. Buoys measure waves well off the
+// beach; by the time they break they have been shoaled (slowed and steepened
+// by the shallowing bottom) and refracted (bent towards the beach, spreading
+// the energy of angled swell along more coastline). This estimates the
+// breaking height from the offshore height, period and direction with linear
+// wave theory and the Komar & Gaughan (1972) breaker formula.
+
+export interface NearshoreTransform {
+  beachNormalDeg: number; // The direction the beach faces: swell from here arrives straight on
+  offshoreDepthM?: number; // Water depth where offshore heights are measured; omit for deep water
+}
+
+export interface BreakingEstimate {
+  heightFt: number; // Estimated breaking face height
+  swellAngleDeg: number; // Offshore swell direction relative to the beach normal, -180 to 180
+  deepWaterHeightFt: number; // Offshore height with the shoaling between deep water and the buoy undone
+  refractionCoefficient: number;
+}
+
+const G = 9.81;
+const FT_PER_M = 3.28084;
+
+// Signed difference between a swell direction and the beach normal
+export function swellAngle(directionDeg: number, beachNormalDeg: number): number {
+  const diff = (((directionDeg - beachNormalDeg) % 360) + 360) % 360;
+  return diff > 180 ? diff - 360 : diff;
+}
+
+// Wave number k (rad/m) from the dispersion relation ω² = gk·tanh(kh),
+// solved by Newton's method from the deep-water value
+export function waveNumber(periodSec: number, depthM: number): number {
+  const omega = (2 * Math.PI) / periodSec;
+  let k = (omega * omega) / G;
+  for (let i = 0; i < 50; i++) {
+    const tanh = Math.tanh(k * depthM);
+    const f = G * k * tanh - omega * omega;
+    const df = G * tanh + G * k * depthM * (1 - tanh * tanh);
+    const next = k - f / df;
+    if (Math.abs(next - k) < 1e-10) return next;
+    k = next;
+  }
+  return k;
+}
+
+// Phase and group speed (m/s) at a depth
+function waveSpeeds(periodSec: number, depthM: number): { phase: number; group: number } {
+  const k = waveNumber(periodSec, depthM);
+  const phase = (2 * Math.PI) / periodSec / k;
+  const kh2 = 2 * k * depthM;
+  return { phase, group: 0.5 * phase * (1 + kh2 / Math.sinh(kh2)) };
+}
+
+// Height at `depthM` relative to the same wave in deep water
+export function shoalingCoefficient(periodSec: number, depthM: number): number {
+  const deepGroup = (G * periodSec) / (4 * Math.PI);
+  return Math.sqrt(deepGroup / waveSpeeds(periodSec, depthM).group);
+}
+
+export function estimateBreakingHeight(
+  offshoreHeightFt: number,
+  periodSec: number,
+  directionDeg: number,
+  transform: NearshoreTransform
+): BreakingEstimate {
+  const angle = swellAngle(directionDeg, transform.beachNormalDeg);
+  const angleRad = (angle * Math.PI) / 180;
+
+  // Undo the shoaling and refraction between deep water and the buoy
+  let deepHeight = offshoreHeightFt / FT_PER_M;
+  let deepAngle = angleRad;
+  if (transform.offshoreDepthM !== undefined) {
+    deepHeight /= shoalingCoefficient(periodSec, transform.offshoreDepthM);
+    const deepPhase = (G * periodSec) / (2 * Math.PI);
+    const sinDeep = (Math.sin(angleRad) * deepPhase) / waveSpeeds(periodSec, transform.offshoreDepthM).phase;
+    deepAngle = Math.asin(Math.max(-1, Math.min(1, sinDeep)));
+  }
+
+  // Swell running parallel to the beach or away from it never reaches it
+  if (Math.abs(angle) >= 90) {
+    return { heightFt: 0, swellAngleDeg: angle, deepWaterHeightFt: deepHeight * FT_PER_M, refractionCoefficient: 0 };
+  }
+
+  // Refracted to arrive nearly straight on, spreading over 1/cos θ0 as much crest
+  const refraction = Math.sqrt(Math.cos(deepAngle));
+  const refracted = deepHeight * refraction;
+  const breaking = 0.39 * Math.pow(G, 0.2) * Math.pow(periodSec * refracted * refracted, 0.4);
+
+  return {
+    heightFt: breaking * FT_PER_M,
+    swellAngleDeg: angle,
+    deepWaterHeightFt: deepHeight * FT_PER_M,
+    refractionCoefficient: refraction,
+  };
+}
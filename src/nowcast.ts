@@ -0,0 +1,80 @@
+import { HourlyForecast } from './forecast.js';
+import { BuoyReading } from './ndbc.js';
+import { HOUR_MS } from './time.js';
+import { MergedPoint, nearestPoint } from './timeseries.js';
+
+// Buoy-corrected nowcast. The marine model is often off by a steady amount
+// for hours at a time, so the buoy-minus-model difference at the latest
+// reading is added to the forecast hours around it, fading out with lead time
+// until the forecast is the raw model again.
+
+// How the buoy compared with the model hour it was read in
+export interface NowcastBias {
+  observedAt: string; // The buoy reading's time
+  modelTime: string; // The model hour it was compared with
+  waveHeightFt: number; // buoy minus model
+  wavePeriodSec: number;
+}
+
+// What was added to one forecast hour
+export interface NowcastCorrection {
+  weight: number; // Share of the bias applied, 1 at the reading and fading to 0
+  waveHeightFt: number;
+  wavePeriodSec: number;
+}
+
+// The bias halves every HALF_LIFE_HOURS from the reading and is dropped
+// entirely past HORIZON_HOURS, where it is down to about 6%
+export const NOWCAST_HALF_LIFE_HOURS = 6;
+export const NOWCAST_HORIZON_HOURS = 24;
+
+// Shortest period a corrected hour can have, so a large negative period bias
+// can't produce a nonsensical swell
+const MIN_PERIOD_SEC = 2;
+
+// Compare the buoy reading with the model hour nearest to it. Null when the
+// model has no waves for that hour.
+export function buoyModelBias(reading: BuoyReading, modelHours: MergedPoint[]): NowcastBias | null {
+  const model = nearestPoint(modelHours, new Date(reading.observedAt));
+  const height = model?.values.wave_height ?? null;
+  const period = model?.values.wave_period ?? null;
+  if (!model || height === null || period === null) return null;
+
+  return {
+    observedAt: reading.observedAt,
+    modelTime: model.time,
+    waveHeightFt: reading.waveHeight - height * 3.28084,
+    wavePeriodSec: reading.wavePeriod - period,
+  };
+}
+
+export function nowcastWeight(leadMs: number): number {
+  const leadHours = Math.abs(leadMs) / HOUR_MS;
+  return leadHours > NOWCAST_HORIZON_HOURS ? 0 : Math.pow(0.5, leadHours / NOWCAST_HALF_LIFE_HOURS);
+}
+
+// Apply the bias to the wave height and period of each hour near the reading.
+// Hours the correction doesn't reach, or with nothing to correct, are
+// returned unchanged.
+export function blendNowcast(hours: HourlyForecast[], bias: NowcastBias): HourlyForecast[] {
+  const observedAt = Date.parse(bias.observedAt);
+
+  return hours.map(hour => {
+    const weight = nowcastWeight(Date.parse(hour.time) - observedAt);
+    if (weight === 0 || hour.wave_height === null || hour.wave_period === null) return hour;
+
+    // Clamp first so the reported correction is what was actually applied
+    const waveHeight = Math.max(0, hour.wave_height + weight * bias.waveHeightFt / 3.28084);
+    const wavePeriod = Math.max(MIN_PERIOD_SEC, hour.wave_period + weight * bias.wavePeriodSec);
+    return {
+      ...hour,
+      wave_height: waveHeight,
+      wave_period: wavePeriod,
+      correction: {
+        weight,
+        waveHeightFt: (waveHeight - hour.wave_height) * 3.28084,
+        wavePeriodSec: wavePeriod - hour.wave_period,
+      },
+    };
+  });
+}
@@ -0,0 +1,75 @@
+import { GeoPoint } from './sun.js';
+import { Transport } from './transport.js';
+
+// Open-Meteo marine (waves, sea temperature) and weather (wind, air
+// temperature, conditions) forecasts. Times are requested as unix seconds.
+
+export interface MarineResponse {
+  current?: {
+    time: number; // Start of the 15-minute interval the values are for
+    sea_surface_temperature: number;
+  };
+  hourly?: {
+    time: number[];
+    wave_height: (number | null)[];
+    wave_period: (number | null)[];
+    swell_wave_direction: (number | null)[];
+    swell_wave_height: (number | null)[];
+    swell_wave_period: (number | null)[];
+    wind_wave_height: (number | null)[];
+    wind_wave_period: (number | null)[];
+    wind_wave_direction: (number | null)[];
+    sea_surface_temperature: (number | null)[];
+  };
+}
+
+export interface WeatherResponse {
+  current: {
+    time: number;
+    temperature_2m: number;
+    weather_code: number;
+    wind_speed_10m: number;
+    wind_direction_10m: number;
+    wind_gusts_10m: number;
+  };
+  hourly: {
+    time: number[];
+    temperature_2m: (number | null)[];
+    wind_speed_10m: (number | null)[];
+    wind_direction_10m: (number | null)[];
+    wind_gusts_10m: (number | null)[];
+    weather_code: (number | null)[];
+  };
+}
+
+// Upstream source of hourly marine and weather forecasts
+export interface ForecastProvider {
+  marine(location: GeoPoint, forecastDays: number): Promise<MarineResponse>;
+  weather(location: GeoPoint, forecastDays: number): Promise<WeatherResponse>;
+}
+
+// JSON, throwing on a non-2xx response so failures aren't cached
+async function fetchJson<T>(transport: Transport, url: string, label: string, timeoutMs: number): Promise<T> {
+  const res = await transport(url, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) {
+    throw new Error(`${label} API returned ${res.status}`);
+  }
+  return res.json() as Promise<T>;
+}
+
+export function createOpenMeteoProvider(transport: Transport): ForecastProvider {
+  return {
+    marine: ({ latitude, longitude }, forecastDays) => fetchJson<MarineResponse>(
+      transport,
+      `https://api.open-meteo.com/v1/marine?latitude=${latitude}&longitude=${longitude}&hourly=wave_height,wave_period,swell_wave_direction,swell_wave_height,swell_wave_period,wind_wave_height,wind_wave_period,wind_wave_direction,sea_surface_temperature&current=sea_surface_temperature&forecast_days=${forecastDays}&timeformat=unixtime`,
+      'Marine',
+      8000
+    ),
+    weather: ({ latitude, longitude }, forecastDays) => fetchJson<WeatherResponse>(
+      transport,
+      `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,weather_code,wind_speed_10m,wind_direction_10m,wind_gusts_10m&hourly=temperature_2m,wind_speed_10m,wind_direction_10m,wind_gusts_10m,weather_code&forecast_days=${forecastDays}&timeformat=unixtime`,
+      'Weather',
+      10000
+    ),
+  };
+}
@@ -0,0 +1,346 @@
+import fs from 'fs';
+import path from 'path';
+import type { Archive, ArchivedProfileSwitch } from './archive.js';
+import type { Spot } from './spots.js';
+
+// A compass sector running clockwise from `from` to `to`. Sectors may wrap
+// through north, e.g. { from: 315, to: 45 }.
+export interface DegreeRange {
+  from: number;
+  to: number;
+}
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Factors whose maximum points a profile can re-weight. Swell quality is a
+// small bonus or penalty and keeps its fixed points.
+export const WEIGHTED_FACTORS = ['wave_height', 'wave_period', 'swell_direction', 'wind', 'tide_state', 'tide_height'] as const;
+export type WeightedFactor = typeof WEIGHTED_FACTORS[number];
+
+export const DEFAULT_WEIGHTS: Record<WeightedFactor, number> = {
+  wave_height: 25,
+  wave_period: 25,
+  swell_direction: 20,
+  wind: 20,
+  tide_state: 10,
+  tide_height: 5,
+};
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string;
+  beachFacingDeg: number; // Also what wind is resolved into onshore/offshore against
+  swellWindows: {
+    ideal: DegreeRange;
+    acceptable: DegreeRange;
+  };
+  waveHeightFt: {
+    ideal: NumberRange;
+    rideableMin: number;
+    maxFt?: number; // Too big above this: the height costs points instead of earning none
+  };
+  wavePeriodSec: {
+    excellent: number;
+    good: number;
+    fair: number;
+  };
+  wind: {
+    calmKts: number;
+    lightKts: number;
+    maxOffshoreKts: number;
+    gustSpreadKts: number; // Gusts this far above the sustained speed make offshore wind gusty
+  };
+  tide: {
+    preferredStates: string[];
+    idealHeightFt: NumberRange;
+  };
+  ratingThresholds: {
+    excellent: number;
+    good: number;
+    marginal: number;
+  };
+  weights?: Partial<Record<WeightedFactor, number>>; // Maximum points per factor; DEFAULT_WEIGHTS when left out
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// The original scoring rules, tuned for an east-facing Florida beach
+export const DEFAULT_PROFILE: ScoringProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'East-facing Florida beach',
+  description: 'Original St. Augustine scoring: E-SE swell, W-NW offshore wind, 2-8 ft waves',
+  beachFacingDeg: 90,
+  swellWindows: {
+    ideal: { from: 45, to: 135 },
+    acceptable: { from: 30, to: 150 },
+  },
+  waveHeightFt: {
+    ideal: { min: 2, max: 8 },
+    rideableMin: 1.5,
+  },
+  wavePeriodSec: {
+    excellent: 10,
+    good: 7,
+    fair: 5,
+  },
+  wind: {
+    calmKts: 5,
+    lightKts: 10,
+    maxOffshoreKts: 15,
+    gustSpreadKts: 10,
+  },
+  tide: {
+    preferredStates: ['Mid', 'Rising', 'Falling'],
+    idealHeightFt: { min: 0.5, max: 2.5 },
+  },
+  ratingThresholds: {
+    excellent: 80,
+    good: 65,
+    marginal: 45,
+  },
+};
+
+export function normalizeDegrees(deg: number): number {
+  return ((deg % 360) + 360) % 360;
+}
+
+export function isInSector(deg: number, sector: DegreeRange): boolean {
+  const d = normalizeDegrees(deg);
+  const from = normalizeDegrees(sector.from);
+  const to = normalizeDegrees(sector.to);
+  return from <= to ? d >= from && d <= to : d >= from || d <= to;
+}
+
+function sectorAround(centerDeg: number, halfWidth: number): DegreeRange {
+  return {
+    from: normalizeDegrees(centerDeg - halfWidth),
+    to: normalizeDegrees(centerDeg + halfWidth),
+  };
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function checkSector(errors: string[], label: string, sector: DegreeRange | undefined) {
+  if (!sector || !isNumber(sector.from) || !isNumber(sector.to)) {
+    errors.push(`${label} must have numeric "from" and "to"`);
+  } else if (sector.from < 0 || sector.from >= 360 || sector.to < 0 || sector.to >= 360) {
+    errors.push(`${label} degrees must be within 0-359`);
+  }
+}
+
+function checkRange(errors: string[], label: string, range: NumberRange | undefined) {
+  if (!range || !isNumber(range.min) || !isNumber(range.max)) {
+    errors.push(`${label} must have numeric "min" and "max"`);
+  } else if (range.min > range.max) {
+    errors.push(`${label}.min must not exceed ${label}.max`);
+  }
+}
+
+// Returns a list of problems with the profile; an empty list means it is valid
+export function validateProfile(profile: ScoringProfile): string[] {
+  const errors: string[] = [];
+
+  if (typeof profile.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(profile.id)) {
+    errors.push('id must be a lowercase slug (letters, digits and dashes)');
+  }
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    errors.push('name is required');
+  }
+  if (!isNumber(profile.beachFacingDeg) || profile.beachFacingDeg < 0 || profile.beachFacingDeg >= 360) {
+    errors.push('beachFacingDeg must be within 0-359');
+  }
+
+  checkSector(errors, 'swellWindows.ideal', profile.swellWindows?.ideal);
+  checkSector(errors, 'swellWindows.acceptable', profile.swellWindows?.acceptable);
+
+  checkRange(errors, 'waveHeightFt.ideal', profile.waveHeightFt?.ideal);
+  if (!isNumber(profile.waveHeightFt?.rideableMin) || profile.waveHeightFt.rideableMin < 0) {
+    errors.push('waveHeightFt.rideableMin must be a non-negative number');
+  } else if (profile.waveHeightFt.ideal && profile.waveHeightFt.rideableMin > profile.waveHeightFt.ideal.min) {
+    errors.push('waveHeightFt.rideableMin must not exceed waveHeightFt.ideal.min');
+  }
+  if (profile.waveHeightFt?.maxFt !== undefined &&
+      (!isNumber(profile.waveHeightFt.maxFt) || (profile.waveHeightFt.ideal && profile.waveHeightFt.maxFt < profile.waveHeightFt.ideal.max))) {
+    errors.push('waveHeightFt.maxFt must be a number no less than waveHeightFt.ideal.max');
+  }
+
+  const period = profile.wavePeriodSec;
+  if (!period || !isNumber(period.excellent) || !isNumber(period.good) || !isNumber(period.fair)) {
+    errors.push('wavePeriodSec must have numeric "excellent", "good" and "fair"');
+  } else if (!(period.excellent >= period.good && period.good >= period.fair && period.fair > 0)) {
+    errors.push('wavePeriodSec must satisfy excellent >= good >= fair > 0');
+  }
+
+  const wind = profile.wind;
+  if (!wind || !isNumber(wind.calmKts) || !isNumber(wind.lightKts) || !isNumber(wind.maxOffshoreKts) || !isNumber(wind.gustSpreadKts)) {
+    errors.push('wind must have numeric "calmKts", "lightKts", "maxOffshoreKts" and "gustSpreadKts"');
+  } else if (wind.calmKts < 0 || wind.calmKts > wind.lightKts) {
+    errors.push('wind must satisfy 0 <= calmKts <= lightKts');
+  } else if (wind.gustSpreadKts <= 0) {
+    errors.push('wind.gustSpreadKts must be positive');
+  }
+
+  if (!Array.isArray(profile.tide?.preferredStates) || !profile.tide.preferredStates.every(s => typeof s === 'string')) {
+    errors.push('tide.preferredStates must be a list of tide state names');
+  }
+  checkRange(errors, 'tide.idealHeightFt', profile.tide?.idealHeightFt);
+
+  const thresholds = profile.ratingThresholds;
+  if (!thresholds || !isNumber(thresholds.excellent) || !isNumber(thresholds.good) || !isNumber(thresholds.marginal)) {
+    errors.push('ratingThresholds must have numeric "excellent", "good" and "marginal"');
+  } else if (!(thresholds.excellent >= thresholds.good && thresholds.good >= thresholds.marginal && thresholds.marginal >= 0 && thresholds.excellent <= 100)) {
+    errors.push('ratingThresholds must satisfy 100 >= excellent >= good >= marginal >= 0');
+  }
+
+  if (profile.weights !== undefined) {
+    for (const [factor, weight] of Object.entries(profile.weights)) {
+      if (!(WEIGHTED_FACTORS as readonly string[]).includes(factor)) {
+        errors.push(`weights.${factor} is not a weighted factor (${WEIGHTED_FACTORS.join(', ')})`);
+      } else if (!isNumber(weight) || weight < 0) {
+        errors.push(`weights.${factor} must be a non-negative number`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// A profile file's contents. Profiles written before wind was scored against
+// the beach-facing angle give the wind directions that count as offshore
+// instead; the beach faces away from the middle of that sector.
+export type ProfileDefinition = Partial<ScoringProfile> & { offshoreSector?: DegreeRange };
+
+function facingAwayFrom(offshoreSector: DegreeRange): number {
+  const width = normalizeDegrees(offshoreSector.to - offshoreSector.from);
+  return normalizeDegrees(offshoreSector.from + width / 2 + 180);
+}
+
+// Build a full profile from a (possibly partial) profile definition. Missing
+// sections (and missing wind cutoffs) come from the default profile, and swell
+// windows are derived from the beach-facing angle when not given explicitly.
+// An `offshoreSector` sets the beach-facing angle when that is left out.
+export function buildProfile(definition: ProfileDefinition): ScoringProfile {
+  const { offshoreSector, ...fields } = definition;
+  if (offshoreSector !== undefined) {
+    const errors: string[] = [];
+    checkSector(errors, 'offshoreSector', offshoreSector);
+    if (errors.length > 0) {
+      throw new Error(`Invalid scoring profile "${definition.id}": ${errors.join('; ')}`);
+    }
+  }
+  const beachFacingDeg = fields.beachFacingDeg
+    ?? (offshoreSector ? facingAwayFrom(offshoreSector) : DEFAULT_PROFILE.beachFacingDeg);
+
+  return {
+    ...DEFAULT_PROFILE,
+    description: undefined,
+    ...fields,
+    beachFacingDeg,
+    swellWindows: fields.swellWindows ?? {
+      ideal: sectorAround(beachFacingDeg, 45),
+      acceptable: sectorAround(beachFacingDeg, 60),
+    },
+    wind: { ...DEFAULT_PROFILE.wind, ...fields.wind },
+  } as ScoringProfile;
+}
+
+const profiles = new Map<string, ScoringProfile>([[DEFAULT_PROFILE_ID, DEFAULT_PROFILE]]);
+
+// Spots switched to another profile at runtime (e.g. a calibrated one),
+// overriding their configured `profileId`
+const activeProfiles = new Map<string, string>();
+
+export function registerProfile(profile: ScoringProfile): void {
+  const errors = validateProfile(profile);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring profile "${profile.id}": ${errors.join('; ')}`);
+  }
+  profiles.set(profile.id, profile);
+}
+
+// Load every *.json profile definition in a directory. Invalid files are
+// logged and skipped so one bad profile can't take the API down.
+export function loadProfiles(dir: string): ScoringProfile[] {
+  if (!fs.existsSync(dir)) {
+    console.log(`🎚️ No scoring profile directory at ${dir}, using built-in profiles`);
+    return [];
+  }
+
+  const loaded: ScoringProfile[] = [];
+  for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+    try {
+      const definition = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      const profile = buildProfile(definition);
+      registerProfile(profile);
+      loaded.push(profile);
+      console.log(`🎚️ Loaded scoring profile "${profile.id}" from ${file}`);
+    } catch (error) {
+      console.error(`❌ Skipping scoring profile ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return loaded;
+}
+
+export function getProfile(id: string): ScoringProfile | undefined {
+  return profiles.get(id);
+}
+
+export function listProfiles(): ScoringProfile[] {
+  return Array.from(profiles.values());
+}
+
+// The spot's own scoring profile, or the default if it isn't loaded
+export function spotProfile(spot: Spot): ScoringProfile {
+  const profileId = activeProfiles.get(spot.id) ?? spot.profileId ?? DEFAULT_PROFILE_ID;
+  const profile = getProfile(profileId);
+  if (!profile) {
+    console.warn(`⚠️ Scoring profile "${profileId}" for ${spot.id} is not loaded, using default profile`);
+    return DEFAULT_PROFILE;
+  }
+  return profile;
+}
+
+// Switch a spot to a registered profile, or back to its configured one with null
+export function setSpotProfile(spotId: string, profileId: string | null): void {
+  if (profileId === null) {
+    activeProfiles.delete(spotId);
+  } else if (!profiles.has(profileId)) {
+    throw new Error(`Scoring profile "${profileId}" is not registered`);
+  } else {
+    activeProfiles.set(spotId, profileId);
+  }
+}
+
+// Switch a spot to a (calibrated) profile, registering it, or back to its
+// configured one with null. The switch is archived first so it survives a
+// restart.
+export async function switchSpotProfile(archive: Archive, spotId: string, profile: ScoringProfile | null, now: number = Date.now()): Promise<void> {
+  if (profile) registerProfile(profile);
+  await archive.recordProfileSwitch({ spotId, at: now, profile });
+  setSpotProfile(spotId, profile?.id ?? null);
+}
+
+// Put spots back on the profiles they were last switched to
+export function restoreSpotProfiles(archive: Archive): number {
+  const latest = new Map<string, ArchivedProfileSwitch>();
+  for (const change of archive.profileSwitches().sort((a, b) => a.at - b.at)) {
+    latest.set(change.spotId, change);
+  }
+
+  let restored = 0;
+  for (const { spotId, profile } of latest.values()) {
+    if (!profile) continue;
+    try {
+      registerProfile(profile);
+      setSpotProfile(spotId, profile.id);
+      restored++;
+    } catch (error) {
+      console.error(`❌ Could not restore the scoring profile of ${spotId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return restored;
+}
@@ -0,0 +1,184 @@
+import { CacheInfo, CacheSource } from './cache.js';
+import { ScoringProfile, DEFAULT_PROFILE } from './profiles.js';
+import { ScoreFactorName, SurfabilityResult, rateScore } from './scoring.js';
+import { HOUR_MS, MINUTE_MS } from './time.js';
+import { Phrasing } from './vocabulary.js';
+
+// Where each input to the current conditions came from, how old it is, and
+// how far the result can be trusted as a whole.
+
+export const PROVENANCE_FIELDS = [
+  'waveHeight',
+  'wavePeriod',
+  'swellDirection',
+  'wind',
+  'tide',
+  'waterTemperature',
+  'airTemperature',
+] as const;
+export type ProvenanceField = typeof PROVENANCE_FIELDS[number];
+
+export interface FieldProvenance {
+  source: string; // e.g. "NDBC buoy 41117" or "default"
+  cacheSource: CacheSource | null; // The upstream response the value was read from
+  observedAt: string | null; // When the value was measured, or the forecast hour it is for
+  fallback: boolean; // Not from the field's primary source
+  defaulted: boolean; // A fixed typical value because no source had data
+  stale: boolean; // Read from a cached response after a failed refresh
+}
+
+export type Provenance = { [field in ProvenanceField]: FieldProvenance };
+
+const FIELD_LABELS: { [field in ProvenanceField]: string } = {
+  waveHeight: 'wave height',
+  wavePeriod: 'wave period',
+  swellDirection: 'swell direction',
+  wind: 'wind',
+  tide: 'tide',
+  waterTemperature: 'water temperature',
+  airTemperature: 'air temperature',
+};
+
+// How much of the confidence score rides on each input, following the points
+// its main factor can earn. Temperatures don't affect the score.
+const CONFIDENCE_WEIGHTS: { [field in ProvenanceField]?: number } = {
+  waveHeight: 25,
+  wavePeriod: 25,
+  swellDirection: 20,
+  wind: 20,
+  tide: 10,
+};
+
+// Older than this, a measurement no longer describes the current conditions.
+// NDBC reports every 30-60 minutes, NOAA water levels every 6.
+const MAX_AGE_MS: { [field in ProvenanceField]?: number } = {
+  waveHeight: 2 * HOUR_MS,
+  wavePeriod: 2 * HOUR_MS,
+  swellDirection: 2 * HOUR_MS,
+  wind: 2 * HOUR_MS,
+  tide: HOUR_MS,
+};
+
+// Share of a field's weight lost for each problem; a defaulted field loses all of it
+const FALLBACK_PENALTY = 0.3;
+const AGE_PENALTY = 0.5;
+const STALE_PENALTY = 0.25;
+
+export function ageMinutes(provenance: FieldProvenance, now: number): number | null {
+  return provenance.observedAt === null ? null : Math.round((now - Date.parse(provenance.observedAt)) / MINUTE_MS);
+}
+
+// Mark fields read from upstream responses that were served stale
+export function markStale(provenance: Provenance, cache: CacheInfo[]): Provenance {
+  const stale = new Set(cache.filter(info => info.status === 'stale').map(info => info.source));
+  const marked = { ...provenance };
+  for (const field of PROVENANCE_FIELDS) {
+    const source = provenance[field].cacheSource;
+    marked[field] = { ...provenance[field], stale: source !== null && stale.has(source) };
+  }
+  return marked;
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface Confidence {
+  score: number; // 0-100
+  level: ConfidenceLevel;
+  reasons: string[];
+}
+
+function joinLabels(fields: ProvenanceField[]): string {
+  const labels = fields.map(field => FIELD_LABELS[field]);
+  const text = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0];
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function assessConfidence(provenance: Provenance, now: number = Date.now()): Confidence {
+  let lost = 0;
+  // Fields with the same problem are reported together
+  const issues = new Map<string, { fields: ProvenanceField[]; describe: (subject: string, verb: string) => string }>();
+  const addIssue = (key: string, field: ProvenanceField, describe: (subject: string, verb: string) => string) => {
+    const issue = issues.get(key) ?? { fields: [], describe };
+    issue.fields.push(field);
+    issues.set(key, issue);
+  };
+
+  for (const field of PROVENANCE_FIELDS) {
+    const weight = CONFIDENCE_WEIGHTS[field];
+    if (weight === undefined) continue;
+    const p = provenance[field];
+
+    if (p.defaulted) {
+      lost += weight;
+      addIssue('defaulted', field, (subject, verb) => `${subject} ${verb} a default value, not data`);
+      continue;
+    }
+
+    let penalty = 0;
+    if (p.fallback) {
+      penalty += FALLBACK_PENALTY;
+      addIssue(`fallback|${p.source}`, field, (subject, verb) => `${subject} ${verb} from the fallback source ${p.source}`);
+    }
+    const age = ageMinutes(p, now);
+    const maxAge = MAX_AGE_MS[field];
+    if (age !== null && maxAge !== undefined && age * MINUTE_MS > maxAge) {
+      penalty += AGE_PENALTY;
+      const hours = Math.round(age / 6) / 10;
+      addIssue(`age|${p.source}|${hours}`, field, (subject, verb) => `${subject} ${verb} ${hours} h old`);
+    }
+    if (p.stale) {
+      penalty += STALE_PENALTY;
+      addIssue(`stale|${p.source}`, field, (subject, verb) => `${subject} ${verb} from a cached ${p.source} response after a failed refresh`);
+    }
+    lost += weight * Math.min(1, penalty);
+  }
+
+  const score = Math.round(100 - lost);
+  return {
+    score,
+    level: score >= 80 ? 'high' : score >= 50 ? 'medium' : 'low',
+    reasons: Array.from(issues.values()).map(issue =>
+      issue.describe(joinLabels(issue.fields), issue.fields.length > 1 ? 'are' : 'is')
+    ),
+  };
+}
+
+// The inputs each score factor is computed from
+const FACTOR_INPUTS: { [factor in ScoreFactorName]: ProvenanceField[] } = {
+  wave_height: ['waveHeight'],
+  wave_period: ['wavePeriod'],
+  swell_direction: ['swellDirection'],
+  swell_quality: ['waveHeight', 'wavePeriod'],
+  wind: ['wind'],
+  tide_state: ['tide'],
+  tide_height: ['tide'],
+};
+
+// Withhold the points a factor earned from defaulted inputs (a made-up mid
+// tide shouldn't make the surf look better) and re-rate. `flags` names the
+// defaulted inputs, e.g. "tide_defaulted".
+export function discountDefaultedInputs(
+  result: SurfabilityResult,
+  provenance: Provenance,
+  profile: ScoringProfile = DEFAULT_PROFILE,
+  phrasing?: Phrasing
+): { result: SurfabilityResult; flags: string[] } {
+  const defaulted = PROVENANCE_FIELDS.filter(field => provenance[field].defaulted);
+  const flags = defaulted.map(field => `${FIELD_LABELS[field].replace(/ /g, '_')}_defaulted`);
+
+  const breakdown = result.breakdown.map(factor => {
+    const inputs = FACTOR_INPUTS[factor.factor].filter(input => provenance[input].defaulted);
+    if (inputs.length === 0 || factor.points <= 0) return factor;
+    return {
+      ...factor,
+      points: 0,
+      reason: `${factor.reason} (not counted: ${inputs.map(input => FIELD_LABELS[input]).join(' and ')} is a default value)`,
+    };
+  });
+
+  if (breakdown.every((factor, i) => factor === result.breakdown[i])) return { result, flags };
+
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+  const score = Math.max(0, Math.min(100, Math.round(total)));
+  return { result: { score, ...rateScore(score, profile, phrasing), breakdown }, flags };
+}
@@ -0,0 +1,19 @@
+import { BuoyProvider, createNdbcProvider } from './ndbc.js';
+import { ForecastProvider, createOpenMeteoProvider } from './openmeteo.js';
+import { TideProvider, createNoaaTidesProvider } from './tides.js';
+import { Transport } from './transport.js';
+
+// Every upstream data source the service reads from
+export interface Providers {
+  tides: TideProvider;
+  buoy: BuoyProvider;
+  forecast: ForecastProvider;
+}
+
+export function createProviders(transport: Transport): Providers {
+  return {
+    tides: createNoaaTidesProvider(transport),
+    buoy: createNdbcProvider(transport),
+    forecast: createOpenMeteoProvider(transport),
+  };
+}
@@ -0,0 +1,97 @@
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { DELIVERY_HEADER, SIGNATURE_HEADER, verifySignature } from './webhooks.js';
+
+// A minimal webhook receiver for testing alerts end to end. Run it with
+//
+//   WEBHOOK_SECRET=<alert secret> npm run webhook-receiver
+//
+// and register an alert with webhook_url http://localhost:4000/ on a service
+// started with ALLOW_LOCAL_WEBHOOKS=true. Deliveries with a bad signature are
+// answered with 401, repeated delivery ids are acknowledged but not counted
+// again.
+
+export interface ReceivedWebhook {
+  deliveryId: string;
+  verified: boolean;
+  payload: unknown;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  close: () => Promise<void>;
+}
+
+export interface ReceiverOptions {
+  port?: number; // 0 picks a free port
+  secret?: string; // Signatures aren't checked without one
+  // Status codes to answer with, in order, before switching to normal handling
+  // (lets tests exercise retries)
+  failWith?: number[];
+  onWebhook?: (webhook: ReceivedWebhook) => void;
+}
+
+export function startWebhookReceiver(options: ReceiverOptions = {}): Promise<WebhookReceiver> {
+  const received: ReceivedWebhook[] = [];
+  const seen = new Set<string>();
+  const failures = [...(options.failWith ?? [])];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const failure = failures.shift();
+      if (failure !== undefined) {
+        res.writeHead(failure).end();
+        return;
+      }
+
+      const signature = req.headers[SIGNATURE_HEADER.toLowerCase()];
+      const verified = options.secret !== undefined && typeof signature === 'string' &&
+        verifySignature(options.secret, signature, body);
+      if (options.secret !== undefined && !verified) {
+        res.writeHead(401).end();
+        return;
+      }
+
+      const deliveryId = String(req.headers[DELIVERY_HEADER.toLowerCase()] ?? '');
+      if (!seen.has(deliveryId)) {
+        seen.add(deliveryId);
+        let payload: unknown = body;
+        try {
+          payload = JSON.parse(body);
+        } catch {
+          // Keep the raw body
+        }
+        const webhook = { deliveryId, verified, payload };
+        received.push(webhook);
+        options.onWebhook?.(webhook);
+      }
+      res.writeHead(204).end();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port;
+      resolve({
+        url: `http://127.0.0.1:${port}/`,
+        received,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const receiver = await startWebhookReceiver({
+    port: Number(process.env.PORT || 4000),
+    secret: process.env.WEBHOOK_SECRET,
+    onWebhook: webhook => console.log(`📬 ${webhook.deliveryId} (${webhook.verified ? 'verified' : 'unsigned'}):`, JSON.stringify(webhook.payload, null, 2)),
+  });
+  console.log(`📬 Webhook receiver listening on ${receiver.url}`);
+}
@@ -0,0 +1,131 @@
+import { swellAngle } from './nearshore.js';
+import { ScoringProfile } from './profiles.js';
+import { SurfData, SurfabilityResult } from './scoring.js';
+import { DEFAULT_VOCABULARY, Phrasing, pickPhrase } from './vocabulary.js';
+
+// Hazards that make the water dangerous regardless of how good the waves
+// are. Lightning and warning-level surf or wind make conditions unsurfable;
+// advisories and rip currents are reported but leave the call to the surfer.
+
+export type HazardType = 'lightning' | 'high_surf' | 'high_wind' | 'rip_current';
+export type HazardLevel = 'advisory' | 'warning';
+export type RipCurrentRisk = 'low' | 'moderate' | 'high';
+
+export interface Hazard {
+  type: HazardType;
+  level: HazardLevel;
+  message: string;
+  overridesSurfable: boolean;
+}
+
+export interface SafetyAssessment {
+  safe: boolean; // No hazard overrides surfable
+  hazards: Hazard[];
+  ripCurrentRisk: RipCurrentRisk;
+}
+
+// WMO weather codes 95-99: thunderstorm, with slight or heavy hail
+const THUNDERSTORM_CODES = { from: 95, to: 99 };
+
+// Breaking heights for east Florida beaches. NWS issues high surf advisories
+// there around 7 ft and warnings around 10 ft.
+const HIGH_SURF_FT = { advisory: 7, warning: 10 };
+
+// Sustained wind: small craft advisory and gale strength. Gusts alone at gale
+// strength also count as a warning.
+const HIGH_WIND_KTS = { advisory: 20, warning: 34 };
+
+// Rip current points: bigger, longer-period swell arriving straight on drives
+// stronger rips, and they pull hardest around low tide
+function ripCurrentRisk(data: SurfData, profile: ScoringProfile): RipCurrentRisk {
+  const height = data.breakingHeight ?? data.waveHeight;
+  const angle = Math.abs(swellAngle(data.swellDirection, profile.beachFacingDeg));
+
+  let points = 0;
+  if (height >= 5) points += 2;
+  else if (height >= 3) points += 1;
+  if (data.wavePeriod >= 13) points += 2;
+  else if (data.wavePeriod >= 10) points += 1;
+  if (angle <= 20) points += 1;
+  if (data.tide === 'Low' || data.tide === 'Falling') points += 1;
+
+  return points >= 5 ? 'high' : points >= 3 ? 'moderate' : 'low';
+}
+
+export function assessSafety(data: SurfData, weatherCode: number | null, profile: ScoringProfile): SafetyAssessment {
+  const hazards: Hazard[] = [];
+
+  if (weatherCode !== null && weatherCode >= THUNDERSTORM_CODES.from && weatherCode <= THUNDERSTORM_CODES.to) {
+    hazards.push({
+      type: 'lightning',
+      level: 'warning',
+      message: 'Thunderstorms in the area: stay out of the water until 30 minutes after the last thunder',
+      overridesSurfable: true,
+    });
+  }
+
+  const height = data.breakingHeight ?? data.waveHeight;
+  if (height >= HIGH_SURF_FT.warning) {
+    hazards.push({
+      type: 'high_surf',
+      level: 'warning',
+      message: `${height.toFixed(1)} ft surf is at high surf warning levels (${HIGH_SURF_FT.warning}+ ft)`,
+      overridesSurfable: true,
+    });
+  } else if (height >= HIGH_SURF_FT.advisory) {
+    hazards.push({
+      type: 'high_surf',
+      level: 'advisory',
+      message: `${height.toFixed(1)} ft surf is at high surf advisory levels (${HIGH_SURF_FT.advisory}+ ft)`,
+      overridesSurfable: false,
+    });
+  }
+
+  const gust = data.windGust ?? data.windSpeed;
+  if (data.windSpeed >= HIGH_WIND_KTS.warning || gust >= HIGH_WIND_KTS.warning) {
+    hazards.push({
+      type: 'high_wind',
+      level: 'warning',
+      message: `Gale-force wind: ${data.windSpeed.toFixed(0)} kts gusting ${gust.toFixed(0)} kts`,
+      overridesSurfable: true,
+    });
+  } else if (data.windSpeed >= HIGH_WIND_KTS.advisory) {
+    hazards.push({
+      type: 'high_wind',
+      level: 'advisory',
+      message: `Strong wind: ${data.windSpeed.toFixed(0)} kts sustained`,
+      overridesSurfable: false,
+    });
+  }
+
+  const ripRisk = ripCurrentRisk(data, profile);
+  if (ripRisk !== 'low') {
+    hazards.push({
+      type: 'rip_current',
+      level: ripRisk === 'high' ? 'warning' : 'advisory',
+      message: `${ripRisk === 'high' ? 'High' : 'Moderate'} rip current risk`,
+      overridesSurfable: false,
+    });
+  }
+
+  return { safe: hazards.every(hazard => !hazard.overridesSurfable), hazards, ripCurrentRisk: ripRisk };
+}
+
+// The hazard that makes conditions unsurfable, if any
+export function overridingHazard(safety: SafetyAssessment): Hazard | undefined {
+  return safety.hazards.find(hazard => hazard.overridesSurfable);
+}
+
+// The score and breakdown still describe the waves, but an overriding hazard
+// makes conditions unsurfable and rates them poor, with a fun rating that says
+// to stay out instead of one for the waves
+export function applySafety(result: SurfabilityResult, safety: SafetyAssessment, phrasing?: Phrasing): SurfabilityResult {
+  if (safety.safe) return result;
+  const vocabulary = phrasing?.vocabulary ?? DEFAULT_VOCABULARY;
+  return {
+    ...result,
+    surfable: false,
+    rating: 'Poor',
+    funRating: pickPhrase(vocabulary.hazardRatings, phrasing?.seed ?? String(result.score)),
+  };
+}
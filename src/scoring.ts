@@ -0,0 +1,282 @@
+import { DegreeRange, ScoringProfile, DEFAULT_PROFILE, isInSector } from './profiles.js';
+import { DEFAULT_VOCABULARY, Phrasing, RatingCategory, pickPhrase } from './vocabulary.js';
+import { isGusty, isOffshore, windComponents } from './wind.js';
+
+// One partition of the sea state (primary swell or local wind sea)
+export interface WaveComponent {
+  height: number; // feet
+  period: number; // seconds
+  direction: number | null; // degrees
+}
+
+export interface SurfData {
+  waveHeight: number; // Offshore significant height, feet
+  breakingHeight?: number; // Estimated breaking face height at the beach; scored instead of waveHeight when set
+  wavePeriod: number;
+  swellDirection: number;
+  windDirection: number;
+  windSpeed: number;
+  windGust?: number; // knots
+  tide: string | null; // null for forecast hours past the end of the tide predictions
+  tideHeight?: number;
+  swell?: WaveComponent;
+  windSea?: WaveComponent;
+  steepness?: string; // NDBC steepness class, e.g. SWELL, AVERAGE, STEEP, VERY_STEEP
+}
+
+export interface SurfabilityResult {
+  score: number;
+  surfable: boolean;
+  rating: string;
+  funRating: string;
+  breakdown: ScoreFactor[];
+}
+
+export type ScoreFactorName = 'wave_height' | 'wave_period' | 'swell_direction' | 'swell_quality' | 'wind' | 'tide_state' | 'tide_height';
+
+export interface ScoreFactor {
+  factor: ScoreFactorName;
+  value: number | string | { [key: string]: number } | null;
+  points: number;
+  maxPoints: number;
+  reason: string;
+}
+
+const formatSector = (sector: DegreeRange) => `${sector.from}-${sector.to}°`;
+
+// Waves over a profile's `maxFt` cost enough to pull an otherwise good score
+// down to poor
+const TOO_BIG_PENALTY = 50;
+
+function scoreWaveHeight(data: SurfData, profile: ScoringProfile): ScoreFactor {
+  // Wave height scoring (ideal band, with partial credit for small but rideable)
+  const heights = profile.waveHeightFt;
+  const waveHeight = data.breakingHeight ?? data.waveHeight;
+  const height = data.breakingHeight !== undefined
+    ? `${waveHeight.toFixed(1)} ft breaking (${data.waveHeight.toFixed(1)} ft offshore)`
+    : waveHeight.toFixed(1) + ' ft';
+  const factor = { factor: 'wave_height' as const, value: waveHeight, maxPoints: 25 };
+
+  if (waveHeight >= heights.ideal.min && waveHeight <= heights.ideal.max) {
+    return { ...factor, points: 25, reason: `${height} is within the ideal ${heights.ideal.min}-${heights.ideal.max} ft range` };
+  }
+  if (waveHeight >= heights.rideableMin && waveHeight < heights.ideal.min) {
+    return { ...factor, points: 15, reason: `${height} is small but rideable (ideal is ${heights.ideal.min}-${heights.ideal.max} ft)` };
+  }
+  if (heights.maxFt !== undefined && waveHeight > heights.maxFt) {
+    return { ...factor, points: -TOO_BIG_PENALTY, reason: `${height} is too big (over ${heights.maxFt} ft)` };
+  }
+  if (waveHeight > heights.ideal.max) {
+    return { ...factor, points: 0, reason: `${height} is above the ${heights.ideal.max} ft maximum` };
+  }
+  return { ...factor, points: 0, reason: `${height} is below the ${heights.rideableMin} ft rideable minimum` };
+}
+
+function scoreWavePeriod(data: SurfData, profile: ScoringProfile): ScoreFactor {
+  // Wave period scoring (longer periods are better)
+  const periods = profile.wavePeriodSec;
+  const period = data.wavePeriod.toFixed(1);
+  const factor = { factor: 'wave_period' as const, value: data.wavePeriod, maxPoints: 25 };
+
+  if (data.wavePeriod >= periods.excellent) {
+    return { ...factor, points: 25, reason: `${period} s is a long-period groundswell (${periods.excellent}+ s)` };
+  }
+  if (data.wavePeriod >= periods.good) {
+    return { ...factor, points: 20, reason: `${period} s is a decent period (${periods.good}-${periods.excellent} s)` };
+  }
+  if (data.wavePeriod >= periods.fair) {
+    return { ...factor, points: 10, reason: `${period} s is a short-period wind swell (${periods.fair}-${periods.good} s)` };
+  }
+  return { ...factor, points: 0, reason: `${period} s is too short to produce clean waves (under ${periods.fair} s)` };
+}
+
+function scoreSwellDirection(data: SurfData, profile: ScoringProfile): ScoreFactor {
+  // Swell direction scoring (swell aimed into the beach is ideal)
+  const windows = profile.swellWindows;
+  const direction = Math.round(data.swellDirection);
+  const factor = { factor: 'swell_direction' as const, value: data.swellDirection, maxPoints: 20 };
+
+  if (isInSector(data.swellDirection, windows.ideal)) {
+    return { ...factor, points: 20, reason: `${direction}° is inside the ideal swell window (${formatSector(windows.ideal)})` };
+  }
+  if (isInSector(data.swellDirection, windows.acceptable)) {
+    return { ...factor, points: 10, reason: `${direction}° is at the edge of the swell window (${formatSector(windows.acceptable)})` };
+  }
+  return { ...factor, points: 0, reason: `${direction}° is outside the swell window (${formatSector(windows.acceptable)})` };
+}
+
+function scoreSwellQuality(data: SurfData, profile: ScoringProfile): ScoreFactor {
+  // Reward clean groundswell and penalize short-period wind chop. Shares are
+  // by wave energy, which goes with height squared.
+  const factor = { factor: 'swell_quality' as const, maxPoints: 5 };
+  const { swell, windSea } = data;
+
+  if (!swell && !windSea) {
+    return { ...factor, value: null, points: 0, reason: 'No swell/wind-sea breakdown available' };
+  }
+
+  const swellEnergy = swell ? swell.height ** 2 : 0;
+  const windSeaEnergy = windSea ? windSea.height ** 2 : 0;
+  const totalEnergy = swellEnergy + windSeaEnergy;
+  const swellShare = totalEnergy > 0 ? swellEnergy / totalEnergy : 0;
+  const value = {
+    swell_share: Math.round(swellShare * 100) / 100,
+    ...(swell && { swell_period_sec: swell.period }),
+    ...(windSea && { wind_sea_period_sec: windSea.period }),
+  };
+  const percent = Math.round(swellShare * 100);
+  const periods = profile.wavePeriodSec;
+  const steep = data.steepness === 'STEEP' || data.steepness === 'VERY_STEEP';
+  const choppy = windSea !== undefined && windSea.period < periods.good;
+
+  if (swell && swell.period >= periods.excellent && swellShare >= 0.7 && !steep) {
+    return { ...factor, value, points: 5, reason: `Clean groundswell: ${percent}% of the energy is ${swell.period.toFixed(1)} s swell` };
+  }
+  if (choppy && (swellShare < 0.5 || data.steepness === 'VERY_STEEP')) {
+    return { ...factor, value, points: -10, reason: `Short-period wind chop (${windSea!.period.toFixed(1)} s) dominates the sea state` };
+  }
+  if (choppy && (swellShare < 0.7 || steep)) {
+    return { ...factor, value, points: -5, reason: `Swell is mixed with ${windSea!.period.toFixed(1)} s wind chop (${100 - percent}% of the energy)` };
+  }
+  return { ...factor, value, points: 0, reason: `Mixed sea state: ${percent}% of the energy is swell` };
+}
+
+// Cross-shore wind roughens the surface about half as much as onshore wind
+const CROSS_SHORE_CHOP_FACTOR = 0.5;
+const GUSTY_OFFSHORE_PENALTY = 5;
+
+function scoreWind(data: SurfData, profile: ScoringProfile): ScoreFactor {
+  // Wind scoring through its components relative to the beach: offshore
+  // winds are best unless strong or gusty, onshore wind chops the surface
+  const wind = profile.wind;
+  const speed = data.windSpeed.toFixed(1);
+  const direction = Math.round(data.windDirection);
+  const components = windComponents(data.windSpeed, data.windDirection, profile.beachFacingDeg);
+  const round1 = (value: number) => Math.round(value * 10) / 10;
+  const factor = {
+    factor: 'wind' as const,
+    value: {
+      speed_kts: data.windSpeed,
+      direction_deg: data.windDirection,
+      ...(data.windGust !== undefined && { gust_kts: data.windGust }),
+      onshore_kts: round1(components.onshoreKts),
+      cross_shore_kts: round1(components.crossShoreKts),
+    },
+    maxPoints: 20,
+  };
+
+  if (data.windSpeed < wind.calmKts) {
+    return { ...factor, points: 15, reason: `${speed} kts is very light wind (under ${wind.calmKts} kts)` };
+  }
+  if (isOffshore(components)) {
+    if (isGusty(data.windSpeed, data.windGust, profile)) {
+      const base = data.windSpeed <= wind.maxOffshoreKts ? 20 : 10;
+      return {
+        ...factor,
+        points: base - GUSTY_OFFSHORE_PENALTY,
+        reason: `${speed} kts offshore from ${direction}° is gusty (gusts to ${data.windGust!.toFixed(0)} kts)`,
+      };
+    }
+    if (data.windSpeed <= wind.maxOffshoreKts) {
+      return { ...factor, points: 20, reason: `${speed} kts offshore from ${direction}° grooms the waves` };
+    }
+    return { ...factor, points: 10, reason: `${speed} kts offshore from ${direction}° is strong (over ${wind.maxOffshoreKts} kts)` };
+  }
+
+  const chop = Math.max(0, components.onshoreKts) + CROSS_SHORE_CHOP_FACTOR * components.crossShoreKts;
+  const kind = components.onshoreKts >= components.crossShoreKts ? 'onshore' : 'cross-shore';
+  if (chop < wind.lightKts) {
+    return { ...factor, points: 10, reason: `${speed} kts ${kind} from ${direction}° is a light breeze` };
+  }
+  return { ...factor, points: 0, reason: `${speed} kts ${kind} from ${direction}° chops up the surface` };
+}
+
+function scoreTideState(data: SurfData, profile: ScoringProfile): ScoreFactor {
+  const factor = { factor: 'tide_state' as const, value: data.tide, maxPoints: 10 };
+
+  if (data.tide === null) {
+    return { ...factor, points: 0, reason: 'No tide state available' };
+  }
+  if (profile.tide.preferredStates.includes(data.tide)) {
+    return { ...factor, points: 10, reason: `${data.tide} tide is a preferred tide state` };
+  }
+  return { ...factor, points: 0, reason: `${data.tide} tide is not a preferred state (${profile.tide.preferredStates.join(', ')})` };
+}
+
+function scoreTideHeight(data: SurfData, profile: ScoringProfile): ScoreFactor {
+  // Bonus points for optimal tide height (mid-range)
+  const idealTide = profile.tide.idealHeightFt;
+  const factor = { factor: 'tide_height' as const, value: data.tideHeight ?? null, maxPoints: 5 };
+
+  if (data.tideHeight === undefined) {
+    return { ...factor, points: 0, reason: 'No tide height available' };
+  }
+  if (data.tideHeight >= idealTide.min && data.tideHeight <= idealTide.max) {
+    return { ...factor, points: 5, reason: `${data.tideHeight.toFixed(1)} ft is within the ideal ${idealTide.min}-${idealTide.max} ft tide range` };
+  }
+  return { ...factor, points: 0, reason: `${data.tideHeight.toFixed(1)} ft is outside the ideal ${idealTide.min}-${idealTide.max} ft tide range` };
+}
+
+// Scale a factor's points to the profile's weight for it
+function weigh(factor: ScoreFactor, profile: ScoringProfile): ScoreFactor {
+  const weight = factor.factor === 'swell_quality' ? undefined : profile.weights?.[factor.factor];
+  if (weight === undefined || weight === factor.maxPoints) return factor;
+  const points = Math.round(factor.points * weight / factor.maxPoints * 10) / 10;
+  return { ...factor, points, maxPoints: weight };
+}
+
+// Score each factor separately so callers can explain where the points came from
+export function scoreFactors(data: SurfData, profile: ScoringProfile = DEFAULT_PROFILE): ScoreFactor[] {
+  return [
+    scoreWaveHeight(data, profile),
+    scoreWavePeriod(data, profile),
+    scoreSwellDirection(data, profile),
+    scoreSwellQuality(data, profile),
+    scoreWind(data, profile),
+    scoreTideState(data, profile),
+    scoreTideHeight(data, profile),
+  ].map(factor => weigh(factor, profile));
+}
+
+// Rating and surfability for a total score under a profile's thresholds. The
+// fun rating comes from the phrasing's vocabulary; without one it is picked
+// from the default pack by the score, so it is still stable.
+export function rateScore(score: number, profile: ScoringProfile = DEFAULT_PROFILE, phrasing?: Phrasing): { surfable: boolean; rating: string; funRating: string } {
+  let rating: string;
+  let category: RatingCategory;
+  const thresholds = profile.ratingThresholds;
+
+  if (score >= thresholds.excellent) {
+    rating = 'Excellent';
+    category = 'excellent';
+  } else if (score >= thresholds.good) {
+    rating = 'Good';
+    category = 'good';
+  } else if (score >= thresholds.marginal) {
+    rating = 'Marginal';
+    category = 'marginal';
+  } else {
+    rating = 'Poor';
+    category = 'poor';
+  }
+
+  const vocabulary = phrasing?.vocabulary ?? DEFAULT_VOCABULARY;
+  return {
+    surfable: score >= thresholds.marginal,
+    rating,
+    funRating: pickPhrase(vocabulary.ratings[category], phrasing?.seed ?? String(score)),
+  };
+}
+
+export function calculateSurfability(data: SurfData, profile: ScoringProfile = DEFAULT_PROFILE, phrasing?: Phrasing): SurfabilityResult {
+  const breakdown = scoreFactors(data, profile);
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+  // Weighted factors can earn fractional points
+  const score = Math.max(0, Math.min(100, Math.round(total)));
+
+  return {
+    score,
+    ...rateScore(score, profile, phrasing),
+    breakdown,
+  };
+}
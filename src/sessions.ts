@@ -0,0 +1,125 @@
+import crypto from 'node:crypto';
+import { Archive, ArchivedForecastHour } from './archive.js';
+import { SurfData } from './scoring.js';
+import { DEFAULT_SPOT_ID, getSpot } from './spots.js';
+import { HOUR_MS, MINUTE_MS } from './time.js';
+
+// Surf sessions logged by surfers with their own 1-5 rating, paired with the
+// conditions the service archived for that hour so scoring can be checked
+// against how the surf actually felt.
+
+export interface SurfSession {
+  id: string;
+  spotId: string;
+  surfedAt: number; // epoch milliseconds, when the session started
+  rating: number; // 1 (poor) to 5 (excellent)
+  notes: string | null;
+  loggedAt: number;
+}
+
+export interface JoinedSession {
+  session: SurfSession;
+  conditions: ArchivedForecastHour | null; // null when nothing was archived for that hour
+}
+
+const MAX_NOTES_LENGTH = 500;
+// Allow for clocks that run a little fast
+const FUTURE_TOLERANCE_MS = 5 * MINUTE_MS;
+
+// A validated POST /sessions body
+export interface SessionRequest {
+  spotId: string;
+  surfedAt: number;
+  rating: number;
+  notes: string | null;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Parse a POST /sessions body into a request, or the list of its problems
+export function parseSessionRequest(body: unknown, now: number = Date.now()): { request: SessionRequest | null; errors: string[] } {
+  if (!isObject(body)) {
+    return { request: null, errors: ['Request body must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const { spot, surfed_at, rating, notes } = body;
+  if (spot !== undefined && (typeof spot !== 'string' || !getSpot(spot))) {
+    errors.push(`spot "${spot}" is not a known spot id`);
+  }
+
+  const surfedAt = typeof surfed_at === 'string' ? Date.parse(surfed_at) : NaN;
+  if (!Number.isFinite(surfedAt)) {
+    errors.push('surfed_at must be an ISO 8601 timestamp');
+  } else if (surfedAt > now + FUTURE_TOLERANCE_MS) {
+    errors.push('surfed_at must not be in the future');
+  }
+
+  if (typeof rating !== 'number' || !Number.isInteger(rating) || rating < 1 || rating > 5) {
+    errors.push('rating must be a whole number from 1 to 5');
+  }
+  if (notes !== undefined && (typeof notes !== 'string' || notes.length > MAX_NOTES_LENGTH)) {
+    errors.push(`notes must be text of at most ${MAX_NOTES_LENGTH} characters`);
+  }
+
+  if (errors.length > 0) return { request: null, errors };
+  return {
+    request: {
+      spotId: (spot as string | undefined) ?? DEFAULT_SPOT_ID,
+      surfedAt,
+      rating: rating as number,
+      notes: (notes as string | undefined) ?? null,
+    },
+    errors,
+  };
+}
+
+export function createSession(request: SessionRequest, now: number = Date.now()): SurfSession {
+  return { id: crypto.randomUUID(), ...request, loggedAt: now };
+}
+
+// The archived forecast hour nearest the session start, from the forecast
+// issued closest to it (the shortest lead time has the buoy nowcast blended in)
+export function sessionConditions(session: SurfSession, forecasts: ArchivedForecastHour[]): ArchivedForecastHour | null {
+  let best: ArchivedForecastHour | null = null;
+  for (const forecast of forecasts) {
+    if (forecast.spotId !== session.spotId || Math.abs(forecast.validAt - session.surfedAt) > HOUR_MS / 2) continue;
+    if (
+      !best ||
+      Math.abs(forecast.validAt - session.surfedAt) < Math.abs(best.validAt - session.surfedAt) ||
+      (forecast.validAt === best.validAt && forecast.leadHours < best.leadHours)
+    ) {
+      best = forecast;
+    }
+  }
+  return best;
+}
+
+export function joinSessions(sessions: SurfSession[], forecasts: ArchivedForecastHour[]): JoinedSession[] {
+  return sessions.map(session => ({ session, conditions: sessionConditions(session, forecasts) }));
+}
+
+// Archived sessions (for one spot, or all of them) joined with their conditions
+export function loadSessions(archive: Archive, spotId?: string): JoinedSession[] {
+  const sessions = archive.sessions(spotId).sort((a, b) => a.surfedAt - b.surfedAt);
+  const spotIds = Array.from(new Set(sessions.map(session => session.spotId)));
+  return joinSessions(sessions, spotIds.flatMap(id => archive.forecasts(id)));
+}
+
+// Archived conditions back in scoring units
+export function archivedSurfData(conditions: ArchivedForecastHour): SurfData {
+  return {
+    waveHeight: conditions.waveHeightFt,
+    breakingHeight: conditions.breakingHeightFt,
+    wavePeriod: conditions.wavePeriodSec,
+    swellDirection: conditions.swellDirectionDeg,
+    windSpeed: conditions.windSpeedKts,
+    windGust: conditions.windGustKts,
+    windDirection: conditions.windDirectionDeg,
+    tide: conditions.tide,
+    tideHeight: conditions.tideHeightFt ?? undefined,
+    swell: conditions.swell,
+    windSea: conditions.windSea,
+    steepness: conditions.steepness,
+  };
+}
@@ -0,0 +1,64 @@
+import { ScoringProfile } from './profiles.js';
+
+// Skill levels reshape a spot's scoring profile for who is paddling out. The
+// spot's geometry (beach angle, swell windows) and tide preferences stay the
+// same; the wave height and period bands and the wind tolerance change.
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'longboarder';
+
+export interface SkillProfile {
+  name: string;
+  description: string;
+  waveHeightFt?: ScoringProfile['waveHeightFt'];
+  wavePeriodSec?: ScoringProfile['wavePeriodSec'];
+  wind?: Partial<ScoringProfile['wind']>;
+}
+
+export const SKILL_LEVELS: Record<SkillLevel, SkillProfile> = {
+  beginner: {
+    name: 'Beginner',
+    description: 'Small, gentle waves and light wind; anything overhead is too big',
+    waveHeightFt: { ideal: { min: 1, max: 3 }, rideableMin: 0.5, maxFt: 5 },
+    wavePeriodSec: { excellent: 8, good: 6, fair: 4 },
+    wind: { lightKts: 8, maxOffshoreKts: 10 },
+  },
+  intermediate: {
+    // The spot profiles are tuned for intermediate surfers
+    name: 'Intermediate',
+    description: "The spot's own scoring profile",
+  },
+  advanced: {
+    name: 'Advanced',
+    description: 'Solid, long-period surf; small days barely count and stronger wind is fine',
+    waveHeightFt: { ideal: { min: 4, max: 12 }, rideableMin: 2.5 },
+    wavePeriodSec: { excellent: 12, good: 9, fair: 7 },
+    wind: { lightKts: 12, maxOffshoreKts: 20 },
+  },
+  longboarder: {
+    name: 'Longboarder',
+    description: 'Knee to chest-high waves are ideal and a little bump is fine; big days are for shortboards',
+    waveHeightFt: { ideal: { min: 1, max: 4 }, rideableMin: 0.5, maxFt: 7 },
+    wavePeriodSec: { excellent: 9, good: 6, fair: 4 },
+    wind: { lightKts: 12 },
+  },
+};
+
+export function isSkillLevel(value: string): value is SkillLevel {
+  return Object.keys(SKILL_LEVELS).includes(value);
+}
+
+// `profile` with the skill level's bands; its id is suffixed with the level.
+// The level's light-wind cutoff never drops below the profile's calm cutoff,
+// which would invert the wind bands on spots that are calm up to a higher speed.
+export function applySkill(profile: ScoringProfile, level: SkillLevel): ScoringProfile {
+  const skill = SKILL_LEVELS[level];
+  const wind = { ...profile.wind, ...skill.wind };
+  return {
+    ...profile,
+    id: `${profile.id}-${level}`,
+    name: `${profile.name} (${skill.name})`,
+    waveHeightFt: skill.waveHeightFt ?? profile.waveHeightFt,
+    wavePeriodSec: skill.wavePeriodSec ?? profile.wavePeriodSec,
+    wind: { ...wind, lightKts: Math.max(wind.calmKts, wind.lightKts) },
+  };
+}
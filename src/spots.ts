@@ -0,0 +1,74 @@
+import { NearshoreTransform } from './nearshore.js';
+
+export interface Spot {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  buoyStation: string;
+  tideStation: string;
+  tideStationName: string;
+  profileId?: string; // Scoring profile, defaults to the built-in default profile
+  nearshore?: NearshoreTransform; // Opt in to scoring estimated breaking heights instead of offshore ones
+}
+
+// Surf spots we serve. Buoy and tide stations are the nearest NOAA stations
+// that publish spectral wave data and tide predictions respectively.
+export const spots: Spot[] = [
+  {
+    id: 'st-augustine',
+    name: 'St. Augustine, FL',
+    latitude: 29.9,
+    longitude: -81.3,
+    timezone: 'America/New_York',
+    buoyStation: '41117',
+    tideStation: '8720587',
+    tideStationName: 'St. Augustine Beach, FL',
+  },
+  {
+    id: 'jacksonville-beach',
+    name: 'Jacksonville Beach, FL',
+    latitude: 30.29,
+    longitude: -81.39,
+    timezone: 'America/New_York',
+    buoyStation: '41112',
+    tideStation: '8720291',
+    tideStationName: 'Jacksonville Beach, FL',
+  },
+  {
+    id: 'flagler-beach',
+    name: 'Flagler Beach, FL',
+    latitude: 29.48,
+    longitude: -81.12,
+    timezone: 'America/New_York',
+    buoyStation: '41117',
+    tideStation: '8720767',
+    tideStationName: 'Flagler Beach, FL',
+  },
+  {
+    id: 'new-smyrna-beach',
+    name: 'New Smyrna Beach, FL',
+    latitude: 29.03,
+    longitude: -80.91,
+    timezone: 'America/New_York',
+    buoyStation: '41113',
+    tideStation: '8721147',
+    tideStationName: 'Ponce de Leon Inlet South, FL',
+    profileId: 'east-northeast-facing',
+  },
+];
+
+export const DEFAULT_SPOT_ID = 'st-augustine';
+
+export function getSpot(id: string): Spot | undefined {
+  return spots.find(spot => spot.id === id);
+}
+
+export function getDefaultSpot(): Spot {
+  const spot = getSpot(DEFAULT_SPOT_ID);
+  if (!spot) {
+    throw new Error(`Default spot "${DEFAULT_SPOT_ID}" is not registered`);
+  }
+  return spot;
+}
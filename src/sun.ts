@@ -0,0 +1,82 @@
+import { DAY_MS } from './time.js';
+
+// Solar position and sunrise/sunset from the standard low-precision
+// astronomical formulae (accurate to a minute or two at surf latitudes), so
+// daylight needs no upstream service.
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number; // degrees east
+}
+
+export interface SunTimes {
+  firstLight: number | null; // civil dawn, epoch milliseconds
+  sunrise: number | null;
+  solarNoon: number;
+  sunset: number | null;
+  lastLight: number | null; // civil dusk
+}
+
+// Sun elevations for the events we care about, in degrees
+export const SUNRISE_ELEVATION = -0.833; // Upper limb on the horizon, with refraction
+export const CIVIL_TWILIGHT_ELEVATION = -6;
+
+const RAD = Math.PI / 180;
+const J2000 = Date.UTC(2000, 0, 1, 12); // Julian date 2451545.0
+const OBLIQUITY = 23.4397 * RAD;
+
+// Ecliptic longitude and solar mean anomaly for days since J2000
+function solarCoordinates(days: number) {
+  const meanAnomaly = (357.5291 + 0.98560028 * days) * RAD;
+  const center = (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly)) * RAD;
+  const eclipticLongitude = meanAnomaly + center + (180 + 102.9372) * RAD;
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(OBLIQUITY));
+  return { meanAnomaly, eclipticLongitude, declination };
+}
+
+// Height of the sun above the horizon at an instant, in degrees
+export function solarElevation(timestamp: number, location: GeoPoint): number {
+  const days = (timestamp - J2000) / DAY_MS;
+  const { eclipticLongitude, declination } = solarCoordinates(days);
+  const rightAscension = Math.atan2(Math.sin(eclipticLongitude) * Math.cos(OBLIQUITY), Math.cos(eclipticLongitude));
+  const siderealTime = (280.147 + 360.9856235 * days + location.longitude) * RAD;
+  const hourAngle = siderealTime - rightAscension;
+  const latitude = location.latitude * RAD;
+
+  return Math.asin(
+    Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+  ) / RAD;
+}
+
+// Light enough to surf: from civil dawn to civil dusk
+export function isDaylight(timestamp: number, location: GeoPoint): boolean {
+  return solarElevation(timestamp, location) >= CIVIL_TWILIGHT_ELEVATION;
+}
+
+// Sun times for a YYYY-MM-DD date, using the solar noon that falls on that
+// UTC date. Events that don't happen that day (polar day or night) are null.
+export function sunTimes(date: string, location: GeoPoint): SunTimes {
+  const [year, month, day] = date.split('-').map(Number);
+  const dayNumber = Math.round((Date.UTC(year, month - 1, day, 12) - J2000) / DAY_MS);
+
+  const approxNoon = dayNumber - location.longitude / 360;
+  const { meanAnomaly, eclipticLongitude, declination } = solarCoordinates(approxNoon);
+  const noonDays = approxNoon + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  const latitude = location.latitude * RAD;
+
+  // Time either side of solar noon at which the sun crosses `elevation`
+  const crossing = (elevation: number, direction: -1 | 1): number | null => {
+    const cosHourAngle = (Math.sin(elevation * RAD) - Math.sin(latitude) * Math.sin(declination)) /
+      (Math.cos(latitude) * Math.cos(declination));
+    if (cosHourAngle < -1 || cosHourAngle > 1) return null;
+    return Math.round(J2000 + (noonDays + direction * Math.acos(cosHourAngle) / (2 * Math.PI)) * DAY_MS);
+  };
+
+  return {
+    firstLight: crossing(CIVIL_TWILIGHT_ELEVATION, -1),
+    sunrise: crossing(SUNRISE_ELEVATION, -1),
+    solarNoon: Math.round(J2000 + noonDays * DAY_MS),
+    sunset: crossing(SUNRISE_ELEVATION, 1),
+    lastLight: crossing(CIVIL_TWILIGHT_ELEVATION, 1),
+  };
+}
@@ -0,0 +1,374 @@
+import { Spot } from './spots.js';
+import { DAY_MS, HOUR_MS, MINUTE_MS } from './time.js';
+import { Transport } from './transport.js';
+
+const NOAA_TIDES_API = 'https://api.tidesandcurrents.noaa.gov/api/prod/datagetter';
+
+export interface TideEvent {
+  time: string; // ISO 8601, UTC
+  timestamp: number;
+  height: number; // feet above MLLW
+  type: 'H' | 'L';
+}
+
+export interface WaterLevel {
+  timestamp: number;
+  height: number; // feet above MLLW
+}
+
+export interface TideCurvePoint {
+  time: string;
+  timestamp: number;
+  height: number;
+  rateFtPerHour: number;
+  observed: number | null;
+  residual: number | null; // observed minus predicted
+}
+
+// High and Low are the top and bottom 10% of the range between the
+// surrounding turning points and Mid is within 15% of its midpoint, which
+// splits a six-hour half cycle into roughly equal parts
+export type TideState = 'High' | 'Low' | 'Rising' | 'Falling' | 'Mid';
+
+export interface TideAtTime {
+  height: number;
+  rateFtPerHour: number;
+  state: TideState;
+}
+
+// Upstream source of tide predictions and observed water levels
+export interface TideProvider {
+  // High/low predictions between two instants
+  predictions(station: string, begin: number, end: number): Promise<TideEvent[]>;
+  // Observed 6-minute levels between two instants; empty for prediction-only stations
+  waterLevels(station: string, begin: number, end: number): Promise<WaterLevel[]>;
+  // The most recent observed level, or null if the station has none
+  latestWaterLevel(station: string): Promise<WaterLevel | null>;
+}
+
+// Where a current tide height came from: a gauge reading, interpolated
+// predictions, the midpoint of the next high and low, or a typical height
+// used when there is no data at all
+export type TideHeightSource = 'observed' | 'predicted' | 'estimated' | 'default';
+
+export interface TideData {
+  currentHeight: number;
+  heightSource: TideHeightSource;
+  observedAt: string | null; // Set when currentHeight is a gauge reading rather than a prediction
+  state: string;
+  events: TideEvent[]; // High/low predictions from a day ago to the end of the requested horizon
+  nextHigh: { time: string; height: number } | null;
+  nextLow: { time: string; height: number } | null;
+  previousHigh: { time: string; height: number } | null;
+  previousLow: { time: string; height: number } | null;
+}
+
+// NOAA times are "YYYY-MM-DD HH:mm"; we always request time_zone=gmt
+export function parseNoaaTime(t: string): number {
+  return Date.parse(`${t.replace(' ', 'T')}:00Z`);
+}
+
+function formatNoaaDate(timestamp: number): string {
+  // yyyyMMdd HH:mm in GMT
+  const iso = new Date(timestamp).toISOString();
+  return `${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)} ${iso.slice(11, 16)}`;
+}
+
+function tidesUrl(station: string, params: { [key: string]: string }): string {
+  const query = new URLSearchParams({
+    station,
+    datum: 'MLLW',
+    time_zone: 'gmt',
+    units: 'english',
+    application: 'SurfLab',
+    format: 'json',
+    ...params,
+  });
+  return `${NOAA_TIDES_API}?${query.toString()}`;
+}
+
+// High/low tide predictions between two instants
+async function fetchTideEvents(transport: Transport, station: string, begin: number, end: number): Promise<TideEvent[]> {
+  const url = tidesUrl(station, {
+    product: 'predictions',
+    interval: 'hilo',
+    begin_date: formatNoaaDate(begin),
+    end_date: formatNoaaDate(end),
+  });
+  console.log('📅 High/Low predictions URL:', url);
+
+  const res = await transport(url, { signal: AbortSignal.timeout(8000) });
+  if (!res.ok) {
+    throw new Error(`Tide predictions returned ${res.status}`);
+  }
+
+  const data = await res.json();
+  if (data.error) {
+    throw new Error(`Tide predictions error: ${data.error.message ?? JSON.stringify(data.error)}`);
+  }
+
+  return (data.predictions ?? [])
+    .map((p: { t: string; v: string; type: string }) => {
+      const timestamp = parseNoaaTime(p.t);
+      return {
+        time: new Date(timestamp).toISOString(),
+        timestamp,
+        height: parseFloat(p.v),
+        type: p.type === 'H' ? 'H' : 'L',
+      };
+    })
+    .filter((e: TideEvent) => Number.isFinite(e.timestamp) && Number.isFinite(e.height))
+    .sort((a: TideEvent, b: TideEvent) => a.timestamp - b.timestamp);
+}
+
+// Observed 6-minute water levels between two instants. Stations without a
+// water level gauge (prediction-only stations) return an empty list.
+async function fetchWaterLevels(transport: Transport, station: string, begin: number, end: number): Promise<WaterLevel[]> {
+  const url = tidesUrl(station, {
+    product: 'water_level',
+    begin_date: formatNoaaDate(begin),
+    end_date: formatNoaaDate(end),
+  });
+
+  const res = await transport(url, { signal: AbortSignal.timeout(8000) });
+  if (!res.ok) {
+    console.log('📊 ❌ Water level request failed:', res.status);
+    return [];
+  }
+
+  const data = await res.json();
+  if (!data.data) {
+    console.log('📊 ❌ No water level data available:', data.error?.message ?? 'no data');
+    return [];
+  }
+
+  return data.data
+    .map((d: { t: string; v: string }) => ({ timestamp: parseNoaaTime(d.t), height: d.v === '' ? NaN : parseFloat(d.v) }))
+    .filter((d: WaterLevel) => Number.isFinite(d.timestamp) && Number.isFinite(d.height));
+}
+
+// Latest observed water level, or null if the station has none
+async function fetchLatestWaterLevel(transport: Transport, station: string): Promise<WaterLevel | null> {
+  const res = await transport(tidesUrl(station, { product: 'water_level', date: 'latest' }), {
+    signal: AbortSignal.timeout(8000)
+  });
+  if (!res.ok) {
+    console.log('📊 ❌ Current water level request failed:', res.status);
+    return null;
+  }
+
+  const data = await res.json();
+  const latest = data.data?.[0];
+  if (!latest || latest.v === undefined || latest.v === '') {
+    console.log('📊 ❌ No current water level data available');
+    return null;
+  }
+
+  const level = { timestamp: parseNoaaTime(latest.t), height: parseFloat(latest.v) };
+  return Number.isFinite(level.timestamp) && Number.isFinite(level.height) ? level : null;
+}
+
+export function createNoaaTidesProvider(transport: Transport): TideProvider {
+  return {
+    predictions: (station, begin, end) => fetchTideEvents(transport, station, begin, end),
+    waterLevels: (station, begin, end) => fetchWaterLevels(transport, station, begin, end),
+    latestWaterLevel: station => fetchLatestWaterLevel(transport, station),
+  };
+}
+
+// The high/low pair either side of an instant
+function surroundingEvents(events: TideEvent[], timestamp: number): [TideEvent, TideEvent] | null {
+  for (let i = 0; i < events.length - 1; i++) {
+    if (timestamp >= events[i].timestamp && timestamp <= events[i + 1].timestamp) {
+      return [events[i], events[i + 1]];
+    }
+  }
+  return null;
+}
+
+// Tide height and rate of change at an instant, interpolated between the
+// surrounding high and low with a half-cosine (the standard approximation
+// for the shape of the tide between turning points). Null outside the
+// range covered by the events.
+export function interpolateTide(events: TideEvent[], timestamp: number): { height: number; rateFtPerHour: number } | null {
+  const surrounding = surroundingEvents(events, timestamp);
+  if (!surrounding) return null;
+
+  const [from, to] = surrounding;
+  const duration = to.timestamp - from.timestamp;
+  if (duration <= 0) return { height: from.height, rateFtPerHour: 0 };
+
+  const phase = Math.PI * (timestamp - from.timestamp) / duration;
+  const range = to.height - from.height;
+  return {
+    height: from.height + range * (1 - Math.cos(phase)) / 2,
+    rateFtPerHour: range * Math.PI * Math.sin(phase) / 2 / (duration / HOUR_MS),
+  };
+}
+
+// Where a height sits in the cycle between two turning points
+export function classifyTide(height: number, from: TideEvent, to: TideEvent): TideState {
+  const low = Math.min(from.height, to.height);
+  const range = Math.max(from.height, to.height) - low;
+  if (range <= 0) return 'Mid';
+
+  const fraction = (height - low) / range;
+  if (fraction >= 0.9) return 'High';
+  if (fraction <= 0.1) return 'Low';
+  if (Math.abs(fraction - 0.5) <= 0.15) return 'Mid';
+  return to.type === 'H' ? 'Rising' : 'Falling';
+}
+
+// Predicted height, rate and state at an instant, or null outside the events
+export function tideAt(events: TideEvent[], timestamp: number): TideAtTime | null {
+  const surrounding = surroundingEvents(events, timestamp);
+  const predicted = interpolateTide(events, timestamp);
+  if (!surrounding || !predicted) return null;
+
+  return { ...predicted, state: classifyTide(predicted.height, ...surrounding) };
+}
+
+// Continuous tide curve from `begin` to `end` at `stepMs` spacing, with
+// observed levels and residuals where observations exist
+export function buildTideCurve(
+  events: TideEvent[],
+  begin: number,
+  end: number,
+  stepMs: number,
+  observations: WaterLevel[] = []
+): TideCurvePoint[] {
+  const sortedObservations = [...observations].sort((a, b) => a.timestamp - b.timestamp);
+  const points: TideCurvePoint[] = [];
+  let obsIndex = 0;
+
+  for (let timestamp = begin; timestamp <= end; timestamp += stepMs) {
+    const predicted = interpolateTide(events, timestamp);
+    if (!predicted) continue;
+
+    // Nearest observation within half a step
+    while (obsIndex < sortedObservations.length - 1 &&
+      Math.abs(sortedObservations[obsIndex + 1].timestamp - timestamp) <= Math.abs(sortedObservations[obsIndex].timestamp - timestamp)) {
+      obsIndex++;
+    }
+    const observation = sortedObservations[obsIndex];
+    const observed = observation && Math.abs(observation.timestamp - timestamp) <= stepMs / 2 ? observation.height : null;
+
+    points.push({
+      time: new Date(timestamp).toISOString(),
+      timestamp,
+      height: predicted.height,
+      rateFtPerHour: predicted.rateFtPerHour,
+      observed,
+      residual: observed !== null ? observed - predicted.height : null,
+    });
+  }
+
+  return points;
+}
+
+// What NOAA has for a station: the latest gauge reading and the high/low
+// predictions from a day ago to the end of the requested horizon, so that
+// forecast hours can be given their own tide
+export interface TideReadings {
+  observed: WaterLevel | null;
+  events: TideEvent[];
+}
+
+// Throws if NOAA can't be reached
+export async function fetchTideReadings(provider: TideProvider, spot: Spot, horizonMs: number = DAY_MS): Promise<TideReadings> {
+  const stationId = spot.tideStation;
+  const now = Date.now();
+
+  // Latest observation for the current level, plus high/low predictions
+  // from yesterday onwards to find the surrounding tides
+  const [observed, events] = await Promise.all([
+    provider.latestWaterLevel(stationId),
+    provider.predictions(stationId, now - DAY_MS, now + Math.max(horizonMs, DAY_MS)),
+  ]);
+  return { observed, events };
+}
+
+// The tide at `now` from NOAA readings, which may have been fetched a while
+// ago: the current height, its state and the surrounding highs and lows
+export function summarizeTide(readings: TideReadings, now: number = Date.now()): TideData {
+  const { observed, events } = readings;
+
+  let currentHeight: number | null = observed?.height ?? null;
+  let heightSource: TideHeightSource = 'observed';
+  if (currentHeight !== null) {
+    console.log('📊 ✅ Got current height from observations:', currentHeight);
+  } else {
+    // Interpolate from the high/low predictions
+    currentHeight = interpolateTide(events, now)?.height ?? null;
+    heightSource = 'predicted';
+    if (currentHeight !== null) {
+      console.log(`📊 ✅ Interpolated current height from predictions: ${currentHeight.toFixed(2)} ft`);
+    }
+  }
+
+  const toSummary = (event: TideEvent | undefined) => event ? { time: event.time, height: event.height } : null;
+  const past = events.filter(e => e.timestamp < now);
+  const future = events.filter(e => e.timestamp >= now);
+
+  const previousHigh = toSummary([...past].reverse().find(e => e.type === 'H'));
+  const previousLow = toSummary([...past].reverse().find(e => e.type === 'L'));
+  const nextHigh = toSummary(future.find(e => e.type === 'H'));
+  const nextLow = toSummary(future.find(e => e.type === 'L'));
+
+  // Final fallback if we still don't have current height
+  if (currentHeight === null) {
+    console.log('📊 🔄 Using fallback current height calculation');
+    if (nextHigh && nextLow) {
+      currentHeight = (nextHigh.height + nextLow.height) / 2;
+      heightSource = 'estimated';
+      console.log(`📊 ✅ Estimated current height: ${currentHeight} ft`);
+    } else {
+      currentHeight = 1.5;
+      heightSource = 'default';
+      console.log('📊 ⚠️ Using absolute fallback height: 1.5 ft');
+    }
+  }
+
+  // Determine tide state from where the current level sits between the
+  // surrounding turning points
+  let state = 'Unknown';
+  const previous = past[past.length - 1];
+  const next = future[0];
+
+  if (previous && next) {
+    state = classifyTide(currentHeight, previous, next);
+    console.log(`🌊 Tide state determined: ${state} (next ${next.type === 'H' ? 'high' : 'low'} in ${Math.round((next.timestamp - now) / MINUTE_MS)} min)`);
+  }
+
+  const finalTideData = {
+    currentHeight,
+    heightSource,
+    observedAt: observed ? new Date(observed.timestamp).toISOString() : null,
+    state,
+    events,
+    nextHigh,
+    nextLow,
+    previousHigh,
+    previousLow
+  };
+
+  console.log('🌊 Final tide data being returned:', { ...finalTideData, events: `${events.length} predictions` });
+  return finalTideData;
+}
+
+// Mid tide at a typical height, for when NOAA is unavailable
+export function fallbackTideData(): TideData {
+  const fallbackData = {
+    currentHeight: 1.5,
+    heightSource: 'default' as const,
+    observedAt: null,
+    state: 'Mid',
+    events: [],
+    nextHigh: null,
+    nextLow: null,
+    previousHigh: null,
+    previousLow: null
+  };
+  console.log('🔄 Returning fallback tide data:', fallbackData);
+  return fallbackData;
+}
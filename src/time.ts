@@ -0,0 +1,60 @@
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+// Offset of `timeZone` from UTC at the given instant, in milliseconds
+// (e.g. -4 hours for America/New_York in summer)
+export function timeZoneOffsetMs(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+// Midnight at the start of a YYYY-MM-DD calendar day in `timeZone`. Days that
+// don't exist, like 2025-02-31, are rejected rather than rolled over into the
+// next month.
+export function startOfLocalDay(date: string, timeZone: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    throw new RangeError(`Invalid date "${date}", expected YYYY-MM-DD`);
+  }
+  const utcMidnight = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (!Number.isFinite(utcMidnight) || new Date(utcMidnight).toISOString().slice(0, 10) !== date) {
+    throw new RangeError(`Invalid date "${date}", expected an existing YYYY-MM-DD day`);
+  }
+  // Two passes settle the offset on DST transition days
+  let start = utcMidnight - timeZoneOffsetMs(utcMidnight, timeZone);
+  start = utcMidnight - timeZoneOffsetMs(start, timeZone);
+  return start;
+}
+
+// The YYYY-MM-DD calendar date of an instant in `timeZone`
+export function localDateString(timestamp: number, timeZone: string): string {
+  return new Date(timestamp + timeZoneOffsetMs(timestamp, timeZone)).toISOString().slice(0, 10);
+}
+
+// Human-readable local clock time, e.g. "3:24 PM"
+export function formatLocalTime(timestamp: number, timeZone: string): string {
+  return new Date(timestamp).toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+}
+
+// The hour of the day (0-23) of an instant in `timeZone`
+export function localHour(timestamp: number, timeZone: string): number {
+  return new Date(timestamp + timeZoneOffsetMs(timestamp, timeZone)).getUTCHours();
+}
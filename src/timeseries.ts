@@ -0,0 +1,101 @@
+import { HOUR_MS } from './time.js';
+
+// A set of equally indexed hourly value arrays from a single upstream source
+export interface HourlySeries {
+  source: string;
+  times: number[]; // epoch milliseconds (UTC)
+  fields: { [field: string]: (number | null | undefined)[] };
+}
+
+export interface MergedPoint {
+  timestamp: number;
+  time: string;
+  values: { [field: string]: number | null };
+  sources: { [field: string]: string };
+  missing: string[];
+}
+
+// Build a series from an Open-Meteo `hourly` block requested with
+// `timeformat=unixtime`. `fieldMap` maps our field names to Open-Meteo
+// variable names. A missing block still declares its fields, so that a source
+// being down shows up as missing values rather than silently disappearing.
+export function fromOpenMeteoHourly(
+  source: string,
+  hourly: { time: number[]; [variable: string]: unknown } | undefined,
+  fieldMap: { [field: string]: string }
+): HourlySeries {
+  const fields: HourlySeries['fields'] = {};
+  for (const [field, variable] of Object.entries(fieldMap)) {
+    const values = hourly?.[variable];
+    fields[field] = Array.isArray(values) ? values : [];
+  }
+
+  return {
+    source,
+    times: (hourly?.time ?? []).map(seconds => seconds * 1000),
+    fields,
+  };
+}
+
+const isPresent = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Join several hourly series on their real timestamps. Timestamps are snapped
+// to the nearest step, the result covers the union of all source horizons, and
+// any field without a value at a given hour is listed in that point's
+// `missing` array. When more than one series provides a field, the first
+// series (in argument order) with a value wins.
+export function mergeSeries(series: HourlySeries[], stepMs: number = HOUR_MS): MergedPoint[] {
+  const expectedFields = Array.from(new Set(series.flatMap(s => Object.keys(s.fields))));
+  const points = new Map<number, MergedPoint>();
+
+  const pointAt = (timestamp: number): MergedPoint => {
+    let point = points.get(timestamp);
+    if (!point) {
+      point = { timestamp, time: new Date(timestamp).toISOString(), values: {}, sources: {}, missing: [] };
+      points.set(timestamp, point);
+    }
+    return point;
+  };
+
+  for (const s of series) {
+    s.times.forEach((time, i) => {
+      const point = pointAt(Math.round(time / stepMs) * stepMs);
+      for (const [field, values] of Object.entries(s.fields)) {
+        const value = values[i];
+        if (isPresent(value) && !(field in point.sources)) {
+          point.values[field] = value;
+          point.sources[field] = s.source;
+        }
+      }
+    });
+  }
+
+  return Array.from(points.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(point => {
+      for (const field of expectedFields) {
+        if (!(field in point.sources)) {
+          point.values[field] = null;
+          point.missing.push(field);
+        }
+      }
+      return point;
+    });
+}
+
+// The point closest to `at`, provided it is within `toleranceMs`
+export function nearestPoint<T extends { timestamp: number }>(points: T[], at: Date, toleranceMs: number = HOUR_MS): T | null {
+  let nearest: T | null = null;
+  let smallestDiff = Infinity;
+
+  for (const point of points) {
+    const diff = Math.abs(point.timestamp - at.getTime());
+    if (diff < smallestDiff) {
+      smallestDiff = diff;
+      nearest = point;
+    }
+  }
+
+  return nearest && smallestDiff <= toleranceMs ? nearest : null;
+}
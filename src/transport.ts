@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+
+// The HTTP layer under the upstream providers. Live requests go through
+// global fetch; the recording transport saves every response to a cassette
+// file and the replay transport serves them back, so the whole service can
+// run offline against real upstream data.
+
+export type Transport = (url: string, init?: { signal?: AbortSignal }) => Promise<Response>;
+
+export const liveTransport: Transport = (url, init) => fetch(url, init);
+
+// One recorded request and its response
+export interface RecordedExchange {
+  url: string;
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+export interface Cassette {
+  recordedAt: string; // When recording started; replay tests run with the clock set here
+  exchanges: RecordedExchange[];
+}
+
+export function readCassette(file: string): Cassette {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function toResponse(exchange: RecordedExchange): Response {
+  return new Response(exchange.body, {
+    status: exchange.status,
+    headers: exchange.contentType ? { 'Content-Type': exchange.contentType } : {},
+  });
+}
+
+// Pass requests through to `inner` and save every response to the cassette,
+// replacing an earlier recording of the same URL
+export function recordingTransport(file: string, inner: Transport = liveTransport): Transport {
+  const cassette: Cassette = { recordedAt: new Date().toISOString(), exchanges: [] };
+
+  return async (url, init) => {
+    const res = await inner(url, init);
+    const exchange = {
+      url,
+      status: res.status,
+      contentType: res.headers.get('Content-Type'),
+      body: await res.text(),
+    };
+
+    cassette.exchanges = [...cassette.exchanges.filter(e => e.url !== url), exchange];
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(cassette, null, 2) + '\n');
+    console.log(`📼 Recorded ${res.status} from ${url}`);
+    return toResponse(exchange);
+  };
+}
+
+// Serve responses from a cassette. A URL that wasn't recorded fails like an
+// unreachable host.
+export function replayTransport(cassette: Cassette): Transport {
+  const byUrl = new Map(cassette.exchanges.map(exchange => [exchange.url, exchange]));
+
+  return async url => {
+    const exchange = byUrl.get(url);
+    if (!exchange) {
+      throw new TypeError(`No recorded response for ${url}`);
+    }
+    return toResponse(exchange);
+  };
+}
+
+// Pick the transport from UPSTREAM_MODE (live, record or replay) and
+// UPSTREAM_CASSETTE
+export function transportFromEnv(): Transport {
+  const mode = process.env.UPSTREAM_MODE || 'live';
+  const file = process.env.UPSTREAM_CASSETTE || 'test/fixtures/upstream/recording.json';
+
+  switch (mode) {
+    case 'live':
+      return liveTransport;
+    case 'record':
+      console.log(`📼 Recording upstream responses to ${file}`);
+      return recordingTransport(file);
+    case 'replay':
+      console.log(`📼 Replaying upstream responses from ${file}`);
+      return replayTransport(readCassette(file));
+    default:
+      throw new Error(`UPSTREAM_MODE must be live, record or replay, not "${mode}"`);
+  }
+}
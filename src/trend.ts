@@ -0,0 +1,154 @@
+import { SpectralObservation } from './ndbc.js';
+import { HOUR_MS, MINUTE_MS } from './time.js';
+
+export type TrendDirection = 'building' | 'steady' | 'dropping' | 'unknown';
+export type RotationDirection = 'veering' | 'steady' | 'backing' | 'unknown';
+
+export interface TrendSample {
+  timestamp: number;
+  value: number;
+}
+
+export interface SeriesTrend {
+  slopePerHour: number | null;
+  trend: TrendDirection;
+  peak: { time: string; value: number } | null;
+  latest: number | null;
+}
+
+export interface BuoyTrend {
+  latestObservedAt: string | null; // Newest observation in the file, even if outside the window
+  ageMinutes: number | null;
+  stale: boolean;
+  observations: {
+    time: string;
+    waveHeightFt: number | null;
+    wavePeriodSec: number | null;
+    directionDeg: number | null;
+  }[];
+  waveHeight: SeriesTrend;
+  wavePeriod: SeriesTrend;
+  direction: {
+    slopePerHour: number | null;
+    trend: RotationDirection;
+    latest: number | null;
+  };
+}
+
+// A buoy whose newest observation is older than this has stopped reporting
+// (it normally reports every 30-60 minutes), so its trend is out of date
+export const STALE_OBSERVATION_MS = 2 * HOUR_MS;
+
+// Changes smaller than these (per hour) count as steady: 0.05 ft/hr is
+// about a foot a day, 0.05 s/hr about a second a day.
+export const TREND_THRESHOLDS = {
+  waveHeightFt: 0.05,
+  wavePeriodSec: 0.05,
+  directionDeg: 1,
+};
+
+// Least-squares slope in units per hour, or null with fewer than two samples
+export function slopePerHour(samples: TrendSample[]): number | null {
+  if (samples.length < 2) return null;
+
+  const xs = samples.map(s => s.timestamp / HOUR_MS);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = samples.reduce((sum, s) => sum + s.value, 0) / samples.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  samples.forEach((s, i) => {
+    numerator += (xs[i] - meanX) * (s.value - meanY);
+    denominator += (xs[i] - meanX) ** 2;
+  });
+
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+export function classifyTrend(slope: number | null, threshold: number): TrendDirection {
+  if (slope === null) return 'unknown';
+  if (slope > threshold) return 'building';
+  if (slope < -threshold) return 'dropping';
+  return 'steady';
+}
+
+// Unwrap compass directions so a swell swinging through north (350° -> 10°)
+// reads as +20° instead of -340°
+function unwrapDirections(samples: TrendSample[]): TrendSample[] {
+  const unwrapped: TrendSample[] = [];
+  samples.forEach((sample, i) => {
+    if (i === 0) {
+      unwrapped.push(sample);
+      return;
+    }
+    let delta = sample.value - samples[i - 1].value;
+    if (delta > 180) delta -= 360;
+    if (delta < -180) delta += 360;
+    unwrapped.push({ timestamp: sample.timestamp, value: unwrapped[i - 1].value + delta });
+  });
+  return unwrapped;
+}
+
+function seriesTrend(samples: TrendSample[], threshold: number): SeriesTrend {
+  const slope = slopePerHour(samples);
+  const peak = samples.reduce<TrendSample | null>((max, s) => (!max || s.value > max.value ? s : max), null);
+
+  return {
+    slopePerHour: slope,
+    trend: classifyTrend(slope, threshold),
+    peak: peak ? { time: new Date(peak.timestamp).toISOString(), value: peak.value } : null,
+    latest: samples.length > 0 ? samples[samples.length - 1].value : null,
+  };
+}
+
+const present = (samples: { timestamp: number; value: number | null }[]): TrendSample[] =>
+  samples.filter((s): s is TrendSample => s.value !== null);
+
+// Summarize the `hours` of buoy observations up to `now` into height, period
+// and direction trends
+export function analyzeBuoyTrend(observations: SpectralObservation[], hours: number, now: number = Date.now()): BuoyTrend {
+  const newest = observations.reduce<SpectralObservation | null>((max, o) => (!max || o.timestamp > max.timestamp ? o : max), null);
+  const age = newest ? Math.max(0, now - newest.timestamp) : null;
+  const window = observations
+    .filter(o => o.timestamp > now - hours * HOUR_MS && o.timestamp <= now)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(o => ({
+      timestamp: o.timestamp,
+      time: o.time,
+      waveHeightFt: o.waveHeightM !== null ? o.waveHeightM * 3.28084 : null,
+      wavePeriodSec: o.swellPeriodSec ?? o.averagePeriodSec,
+      directionDeg: o.meanWaveDirectionDeg ?? o.swellDirectionDeg,
+    }));
+
+  const directionSamples = present(window.map(o => ({ timestamp: o.timestamp, value: o.directionDeg })));
+  const directionSlope = slopePerHour(unwrapDirections(directionSamples));
+
+  let rotation: RotationDirection = 'unknown';
+  if (directionSlope !== null) {
+    if (directionSlope > TREND_THRESHOLDS.directionDeg) rotation = 'veering'; // clockwise
+    else if (directionSlope < -TREND_THRESHOLDS.directionDeg) rotation = 'backing'; // counter-clockwise
+    else rotation = 'steady';
+  }
+
+  return {
+    latestObservedAt: newest?.time ?? null,
+    ageMinutes: age !== null ? Math.round(age / MINUTE_MS) : null,
+    stale: age === null || age > STALE_OBSERVATION_MS,
+    observations: window.map(({ time, waveHeightFt, wavePeriodSec, directionDeg }) => ({
+      time, waveHeightFt, wavePeriodSec, directionDeg,
+    })),
+    waveHeight: seriesTrend(
+      present(window.map(o => ({ timestamp: o.timestamp, value: o.waveHeightFt }))),
+      TREND_THRESHOLDS.waveHeightFt
+    ),
+    wavePeriod: seriesTrend(
+      present(window.map(o => ({ timestamp: o.timestamp, value: o.wavePeriodSec }))),
+      TREND_THRESHOLDS.wavePeriodSec
+    ),
+    direction: {
+      slopePerHour: directionSlope,
+      trend: rotation,
+      latest: directionSamples.length > 0 ? directionSamples[directionSamples.length - 1].value : null,
+    },
+  };
+}
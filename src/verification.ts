@@ -0,0 +1,243 @@
+import { Archive, ArchivedBuoyObservation, ArchivedForecastHour } from './archive.js';
+import { BuoyReading, toBuoyReading } from './ndbc.js';
+import { NearshoreTransform, estimateBreakingHeight } from './nearshore.js';
+import { DEFAULT_PROFILE, getProfile } from './profiles.js';
+import { applySafety, assessSafety } from './safety.js';
+import { SurfData, calculateSurfability } from './scoring.js';
+import { Spot } from './spots.js';
+import { MINUTE_MS } from './time.js';
+
+// Forecast verification: archived forecast hours are paired with the buoy
+// observation nearest their valid time, the observed sea state is scored with
+// the forecast's own wind, gusts, tide and weather, and the errors are
+// summarized by lead time.
+
+export interface LeadTimeBucket {
+  label: string;
+  minHours: number; // inclusive
+  maxHours: number; // exclusive
+}
+
+export const LEAD_TIME_BUCKETS: LeadTimeBucket[] = [
+  { label: '0-6h', minHours: 0, maxHours: 6 },
+  { label: '6-12h', minHours: 6, maxHours: 12 },
+  { label: '12-24h', minHours: 12, maxHours: 24 },
+  { label: '24-48h', minHours: 24, maxHours: 48 },
+  { label: '48h+', minHours: 48, maxHours: Infinity },
+];
+
+// Buoy rows are every 30-60 minutes, so the nearest one should be this close
+const PAIRING_TOLERANCE_MS = 30 * MINUTE_MS;
+
+export interface VerifiedHour {
+  forecast: ArchivedForecastHour;
+  observedWaveHeightFt: number;
+  observedWavePeriodSec: number;
+  observedScore: number;
+  observedSurfable: boolean;
+}
+
+// Forecast minus observed: bias is the mean error, MAE the mean absolute error
+export interface ErrorStats {
+  bias: number | null;
+  mae: number | null;
+}
+
+export interface LeadTimeVerification extends LeadTimeBucket {
+  count: number;
+  waveHeightFt: ErrorStats;
+  wavePeriodSec: ErrorStats;
+  score: ErrorStats;
+  surfableHitRate: number | null; // Share of hours where the surfable flag was right
+}
+
+export interface VerificationReport {
+  spotId: string;
+  generatedAt: string;
+  verifiedHours: number;
+  unmatchedHours: number; // Past forecast hours with no buoy observation near them
+  buckets: LeadTimeVerification[];
+}
+
+// Usable readings sorted by time, for binary search
+function readingsByTime(observations: ArchivedBuoyObservation[]): { timestamp: number; reading: BuoyReading }[] {
+  return observations
+    .flatMap(observation => {
+      const reading = toBuoyReading(observation);
+      return reading ? [{ timestamp: observation.timestamp, reading }] : [];
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function nearestReading(readings: { timestamp: number; reading: BuoyReading }[], at: number): BuoyReading | null {
+  let low = 0;
+  let high = readings.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (readings[mid].timestamp < at) low = mid + 1;
+    else high = mid;
+  }
+
+  const candidates = [readings[low - 1], readings[low]].filter(Boolean);
+  let best: { timestamp: number; reading: BuoyReading } | null = null;
+  for (const candidate of candidates) {
+    if (!best || Math.abs(candidate.timestamp - at) < Math.abs(best.timestamp - at)) best = candidate;
+  }
+  return best && Math.abs(best.timestamp - at) <= PAIRING_TOLERANCE_MS ? best.reading : null;
+}
+
+// The buoy's sea state with everything else the forecast hour was scored on,
+// so the score error only measures the wave forecast. Forecasts scored on the
+// breaking height get the buoy's waves through the spot's nearshore transform.
+function observedSurfData(forecast: ArchivedForecastHour, reading: BuoyReading, nearshore?: NearshoreTransform): SurfData {
+  return {
+    waveHeight: reading.waveHeight,
+    ...(nearshore && forecast.breakingHeightFt !== undefined && {
+      breakingHeight: estimateBreakingHeight(reading.waveHeight, reading.wavePeriod, reading.swellDirection, nearshore).heightFt,
+    }),
+    wavePeriod: reading.wavePeriod,
+    swellDirection: reading.swellDirection,
+    windSpeed: forecast.windSpeedKts,
+    windGust: forecast.windGustKts,
+    windDirection: forecast.windDirectionDeg,
+    tide: forecast.tide,
+    tideHeight: forecast.tideHeightFt ?? undefined,
+    swell: reading.swell ?? undefined,
+    windSea: reading.windSea ?? undefined,
+    steepness: reading.steepness ?? undefined,
+  };
+}
+
+// Pair every forecast hour that is now in the past with what the buoy saw
+export function verifyForecastHours(
+  forecasts: ArchivedForecastHour[],
+  observations: ArchivedBuoyObservation[],
+  now: number = Date.now(),
+  nearshore?: NearshoreTransform
+): { verified: VerifiedHour[]; unmatched: number } {
+  const readings = readingsByTime(observations);
+  const verified: VerifiedHour[] = [];
+  let unmatched = 0;
+
+  for (const forecast of forecasts) {
+    if (forecast.validAt > now) continue;
+
+    const reading = nearestReading(readings, forecast.validAt);
+    if (!reading) {
+      unmatched++;
+      continue;
+    }
+
+    // The archived surfable flag includes any hazard override, so the observed
+    // one goes through the same safety check, with the forecast's weather
+    const data = observedSurfData(forecast, reading, nearshore);
+    const profile = getProfile(forecast.profileId) ?? DEFAULT_PROFILE;
+    const observed = applySafety(calculateSurfability(data, profile), assessSafety(data, forecast.weatherCode ?? null, profile));
+
+    verified.push({
+      forecast,
+      observedWaveHeightFt: reading.waveHeight,
+      observedWavePeriodSec: reading.wavePeriod,
+      observedScore: observed.score,
+      observedSurfable: observed.surfable,
+    });
+  }
+
+  return { verified, unmatched };
+}
+
+function errorStats(errors: number[]): ErrorStats {
+  if (errors.length === 0) return { bias: null, mae: null };
+  return {
+    bias: errors.reduce((sum, e) => sum + e, 0) / errors.length,
+    mae: errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length,
+  };
+}
+
+export function buildVerificationReport(
+  spot: Spot,
+  forecasts: ArchivedForecastHour[],
+  observations: ArchivedBuoyObservation[],
+  now: number = Date.now()
+): VerificationReport {
+  const { verified, unmatched } = verifyForecastHours(forecasts, observations, now, spot.nearshore);
+
+  const buckets = LEAD_TIME_BUCKETS.map(bucket => {
+    const hours = verified.filter(v => v.forecast.leadHours >= bucket.minHours && v.forecast.leadHours < bucket.maxHours);
+    return {
+      ...bucket,
+      count: hours.length,
+      waveHeightFt: errorStats(hours.map(v => v.forecast.waveHeightFt - v.observedWaveHeightFt)),
+      wavePeriodSec: errorStats(hours.map(v => v.forecast.wavePeriodSec - v.observedWavePeriodSec)),
+      score: errorStats(hours.map(v => v.forecast.score - v.observedScore)),
+      surfableHitRate: hours.length > 0
+        ? hours.filter(v => v.forecast.surfable === v.observedSurfable).length / hours.length
+        : null,
+    };
+  });
+
+  return {
+    spotId: spot.id,
+    generatedAt: new Date(now).toISOString(),
+    verifiedHours: verified.length,
+    unmatchedHours: unmatched,
+    buckets,
+  };
+}
+
+// The report for everything archived for a spot and its buoy
+export function buildSpotVerification(archive: Archive, spot: Spot, now: number = Date.now()): VerificationReport {
+  return buildVerificationReport(spot, archive.forecasts(spot.id), archive.buoyObservations(spot.buoyStation), now);
+}
+
+export interface VerificationJobOptions {
+  intervalMs: number;
+  spotIds: string[];
+  // Fetch and archive fresh observations and an issued forecast for a spot
+  refresh: (spotId: string) => Promise<void>;
+  // Build the report from everything archived so far
+  report: (spotId: string) => VerificationReport;
+}
+
+export interface VerificationJob {
+  runOnce: () => Promise<void>;
+  latestReport: (spotId: string) => VerificationReport | undefined;
+  stop: () => void;
+}
+
+// Archive fresh data for every spot and re-verify on a schedule. A spot whose
+// refresh fails is still re-verified against what was archived before.
+export function startVerificationJob(options: VerificationJobOptions): VerificationJob {
+  const reports = new Map<string, VerificationReport>();
+  let running = false;
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      for (const spotId of options.spotIds) {
+        try {
+          await options.refresh(spotId);
+        } catch (error) {
+          console.error(`🗄️ Could not refresh ${spotId} for verification:`, error instanceof Error ? error.message : error);
+        }
+        const report = options.report(spotId);
+        reports.set(spotId, report);
+        console.log(`🗄️ Verified ${report.verifiedHours} forecast hours for ${spotId}`);
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(() => {
+    runOnce().catch(error => console.error('🗄️ Verification run failed:', error));
+  }, options.intervalMs);
+
+  return {
+    runOnce,
+    latestReport: spotId => reports.get(spotId),
+    stop: () => clearInterval(timer),
+  };
+}
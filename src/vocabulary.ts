@@ -0,0 +1,150 @@
+import { HOUR_MS } from './time.js';
+
+// Vocabulary packs: the words used for the fun rating and for days with no
+// surf. Phrases are picked by hashing a seed instead of at random, so the same
+// spot and hour always read the same and responses can be cached and tested.
+
+export type RatingCategory = 'excellent' | 'good' | 'marginal' | 'poor';
+
+export interface VocabularyPack {
+  id: string;
+  name: string;
+  language: string; // Primary language tag matched against Accept-Language
+  ratings: Record<RatingCategory, string[]>;
+  hazardRatings: string[]; // Fun ratings for hours a hazard makes unsurfable
+  flatMessages: string[];
+}
+
+// Which pack to phrase a response in and what to seed the choice with
+export interface Phrasing {
+  vocabulary: VocabularyPack;
+  seed: string;
+}
+
+// Which pack to phrase a spot's forecast hours in. Each hour is seeded by the
+// spot and its own time, so an hour reads the same whenever it is requested.
+export interface ForecastPhrasing {
+  vocabulary: VocabularyPack;
+  spotId: string;
+}
+
+export const DEFAULT_VOCABULARY_ID = 'slang';
+
+export const VOCABULARY_PACKS: Record<string, VocabularyPack> = {
+  // Fun surf rating phrases with some attitude
+  slang: {
+    id: 'slang',
+    name: 'Surf slang',
+    language: 'en',
+    ratings: {
+      excellent: ['Epic', 'Firing', 'Going Off', 'Pumping', 'Primo', 'Cranking', 'Nuking'],
+      good: ['Fun', 'Solid', 'Decent', 'Surfable', 'Worth It', 'Not Bad', 'Rideable'],
+      marginal: ['Marginal', 'Questionable', 'Sketchy', 'Iffy', 'Meh', 'Barely', 'Struggling'],
+      poor: [
+        'Flat', 'Blown Out', 'Junk', 'Trash', 'Hopeless', 'Closed Out', 'Victory at Sea',
+        'Ankle Biters', 'Lake Mode', 'Check the Cam', 'Stay Home', 'Netflix Day',
+      ],
+    },
+    hazardRatings: ['Stay Out', 'Not Today', 'Sit This One Out', 'Beach Only'],
+    // Brutally honest messages for flat/poor conditions
+    flatMessages: [
+      'Flat spell continues...',
+      'Time to practice your pop-ups on land',
+      'Great day for a beach walk',
+      'Maybe check the bay?',
+      'Longboard day if you\'re desperate',
+      'Netflix has some good surf movies',
+      'Perfect time to wax your board',
+    ],
+  },
+  family: {
+    id: 'family',
+    name: 'Family-friendly',
+    language: 'en',
+    ratings: {
+      excellent: ['Epic', 'Amazing', 'Awesome', 'Super Fun', 'Fantastic'],
+      good: ['Fun', 'Nice', 'Playful', 'Worth a Paddle', 'Pleasant'],
+      marginal: ['So-So', 'Small but Fun', 'Wobbly', 'Tricky', 'Just Okay'],
+      poor: ['Flat', 'Too Windy', 'Choppy', 'Rest Day', 'Beach Day', 'Sandcastle Weather'],
+    },
+    hazardRatings: ['Stay on the Sand', 'Not Safe Today', 'Watch from the Beach'],
+    flatMessages: [
+      'Flat today, perfect for building sandcastles',
+      'Great day for a beach walk',
+      'Practice your pop-ups on the sand',
+      'A good day for a swim instead',
+      'Wax your board and wait for the waves',
+    ],
+  },
+  'no-slang': {
+    id: 'no-slang',
+    name: 'No slang',
+    language: 'en',
+    ratings: {
+      excellent: ['Excellent'],
+      good: ['Good'],
+      marginal: ['Marginal'],
+      poor: ['Poor'],
+    },
+    hazardRatings: ['Unsafe'],
+    flatMessages: ['No surfable waves expected today'],
+  },
+  es: {
+    id: 'es',
+    name: 'Español',
+    language: 'es',
+    ratings: {
+      excellent: ['Épico', 'Brutal', 'Buenísimo', 'Olas de lujo', 'Perfecto'],
+      good: ['Divertido', 'Sólido', 'Decente', 'Surfeable', 'Vale la pena', 'Nada mal'],
+      marginal: ['Regular', 'Dudoso', 'Flojo', 'Justito', 'Meh'],
+      poor: ['Plato', 'Revuelto', 'Sin olas', 'Piscina', 'Quédate en casa', 'Día de siesta'],
+    },
+    hazardRatings: ['Peligroso', 'Hoy no', 'Mejor en la arena'],
+    flatMessages: [
+      'Sigue el plato...',
+      'Hora de practicar el take-off en la arena',
+      'Buen día para pasear por la playa',
+      '¿Y si miras la bahía?',
+      'Día de longboard si estás desesperado',
+      'Buen momento para encerar la tabla',
+    ],
+  },
+};
+
+export const DEFAULT_VOCABULARY = VOCABULARY_PACKS[DEFAULT_VOCABULARY_ID];
+
+export function getVocabulary(id: string): VocabularyPack | undefined {
+  return Object.keys(VOCABULARY_PACKS).includes(id) ? VOCABULARY_PACKS[id] : undefined;
+}
+
+// Languages with a pack, the default pack's first
+export function vocabularyLanguages(): string[] {
+  const languages = Object.values(VOCABULARY_PACKS).map(pack => pack.language);
+  return Array.from(new Set([DEFAULT_VOCABULARY.language, ...languages]));
+}
+
+// The pack for a negotiated language: the default pack if it speaks it,
+// otherwise the first pack that does
+export function vocabularyForLanguage(language: string): VocabularyPack {
+  if (DEFAULT_VOCABULARY.language === language) return DEFAULT_VOCABULARY;
+  return Object.values(VOCABULARY_PACKS).find(pack => pack.language === language) ?? DEFAULT_VOCABULARY;
+}
+
+// Seed for a spot's phrases in the hour containing `at`
+export function phraseSeed(spotId: string, at: number): string {
+  return `${spotId}|${new Date(Math.floor(at / HOUR_MS) * HOUR_MS).toISOString()}`;
+}
+
+// FNV-1a: a cheap, stable string hash
+function hash(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function pickPhrase(options: string[], seed: string): string {
+  return options[hash(seed) % options.length];
+}
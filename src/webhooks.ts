@@ -0,0 +1,185 @@
+import crypto from 'node:crypto';
+import dns from 'node:dns';
+import net from 'node:net';
+
+// Signed webhook delivery. Each request carries
+//
+//   X-Surfability-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+//   X-Surfability-Delivery: <delivery id, the same across retries>
+//
+// where the HMAC is over "<t>.<raw body>" with the alert's secret.
+// Receivers should reject stale timestamps and deduplicate on the delivery id.
+
+export const SIGNATURE_HEADER = 'X-Surfability-Signature';
+export const DELIVERY_HEADER = 'X-Surfability-Delivery';
+
+// Signatures older than this are rejected by verifySignature
+export const SIGNATURE_TOLERANCE_SEC = 5 * 60;
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number; // Doubles after every failed attempt
+  timeoutMs: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_RETRY: RetryOptions = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  timeoutMs: 5000,
+};
+
+export interface DeliveryResult {
+  deliveryId: string;
+  delivered: boolean;
+  attempts: number;
+  status: number | null; // HTTP status of the last attempt
+  error: string | null;
+}
+
+// Where a webhook may be sent. Only https URLs on public addresses are allowed,
+// so a rule can't make the service call into its own network (cloud metadata
+// endpoints, admin ports on localhost). `allowLocal` lifts both restrictions
+// for trying alerts against a local receiver.
+export interface TargetOptions {
+  allowLocal?: boolean;
+  lookup?: (hostname: string) => Promise<{ address: string }[]>;
+}
+
+const lookupAll = (hostname: string) => dns.promises.lookup(hostname, { all: true, verbatim: true });
+
+// Unspecified, loopback, private, CGNAT, link-local, benchmarking, multicast
+// and reserved ranges, and NAT64 addresses. IPv4-mapped IPv6 addresses are
+// checked against the IPv4 ranges.
+const NON_PUBLIC = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(address, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Why a webhook can't be sent to `url`, or null if it can. Host names are
+// resolved and every address they resolve to must be public.
+export async function checkWebhookTarget(url: string, options: TargetOptions = {}): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'webhook_url must be a URL';
+  }
+  if (options.allowLocal) {
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:' ? null : 'webhook_url must be an http(s) URL';
+  }
+  if (parsed.protocol !== 'https:') return 'webhook_url must be an https URL';
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await (options.lookup ?? lookupAll)(host)).map(entry => entry.address);
+    } catch {
+      return `webhook_url host ${host} could not be resolved`;
+    }
+  }
+
+  const blocked = addresses.find(address => !isPublicAddress(address));
+  if (blocked === undefined) return null;
+  const where = blocked === host ? host : `${host} resolves to ${blocked}`;
+  return `webhook_url must not point at a private, loopback or link-local address (${where})`;
+}
+
+export function generateSecret(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+export function signPayload(secret: string, timestampSec: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestampSec}.${body}`).digest('hex');
+  return `t=${timestampSec},v1=${digest}`;
+}
+
+export function verifySignature(secret: string, header: string, body: string, nowSec: number = Math.floor(Date.now() / 1000)): boolean {
+  const parts = new Map(header.split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestampSec = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestampSec) || !signature || Math.abs(nowSec - timestampSec) > SIGNATURE_TOLERANCE_SEC) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestampSec, body).split('v1=')[1], 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// POST a signed JSON payload, retrying network errors, 5xx and 429 responses
+// with exponential backoff. Other 4xx responses mean the receiver rejected
+// the payload, so they are not retried. The target is checked again before
+// sending, since its host may resolve elsewhere than when the rule was
+// created, and redirects aren't followed.
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  payload: object,
+  options: RetryOptions = DEFAULT_RETRY,
+  target: TargetOptions = {}
+): Promise<DeliveryResult> {
+  const sleep = options.sleep ?? defaultSleep;
+  const deliveryId = crypto.randomUUID();
+  const body = JSON.stringify(payload);
+  let status: number | null = null;
+  let error: string | null = await checkWebhookTarget(url, target);
+
+  if (error !== null) {
+    return { deliveryId, delivered: false, attempts: 0, status, error };
+  }
+
+  for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [SIGNATURE_HEADER]: signPayload(secret, Math.floor(Date.now() / 1000), body),
+          [DELIVERY_HEADER]: deliveryId,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      status = res.status;
+      error = res.ok ? null : `Receiver returned ${res.status}`;
+
+      if (res.ok) {
+        return { deliveryId, delivered: true, attempts: attempt, status, error };
+      }
+      if (res.status < 500 && res.status !== 429) {
+        return { deliveryId, delivered: false, attempts: attempt, status, error };
+      }
+    } catch (err) {
+      status = null;
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (attempt < options.maxAttempts) {
+      const delay = options.baseDelayMs * 2 ** (attempt - 1);
+      console.warn(`🔔 Webhook delivery ${deliveryId} attempt ${attempt} failed (${error}), retrying in ${delay} ms`);
+      await sleep(delay);
+    }
+  }
+
+  return { deliveryId, delivered: false, attempts: options.maxAttempts, status, error };
+}
@@ -0,0 +1,124 @@
+import { ScoringProfile } from './profiles.js';
+import { ScoredHour } from './forecast.js';
+import { HOUR_MS, formatLocalTime, localDateString, localHour } from './time.js';
+
+// Wind relative to the coastline. What matters for the surface is how much
+// of the wind blows onshore (chop), offshore (grooming, until it is strong
+// or gusty) or along the beach, not its compass direction on its own.
+
+export interface WindComponents {
+  onshoreKts: number; // Blowing from the sea onto the beach; negative is offshore
+  crossShoreKts: number; // Along the beach, either way
+}
+
+export function windComponents(speedKts: number, directionDeg: number, beachFacingDeg: number): WindComponents {
+  // Wind directions are where the wind comes from, so wind from the bearing
+  // the beach faces blows straight onshore
+  const angle = ((directionDeg - beachFacingDeg) * Math.PI) / 180;
+  return {
+    onshoreKts: speedKts * Math.cos(angle),
+    crossShoreKts: Math.abs(speedKts * Math.sin(angle)),
+  };
+}
+
+// Within 45° of straight offshore
+export function isOffshore(components: WindComponents): boolean {
+  return -components.onshoreKts >= components.crossShoreKts && components.onshoreKts < 0;
+}
+
+// Gusts far enough above the sustained speed to make the wind unsteady
+export function isGusty(speedKts: number, gustKts: number | undefined, profile: ScoringProfile): boolean {
+  return gustKts !== undefined && gustKts - speedKts >= profile.wind.gustSpreadKts;
+}
+
+export type WindEventType = 'glassy_morning' | 'sea_breeze_onset';
+
+export interface WindEvent {
+  type: WindEventType;
+  date: string; // Local YYYY-MM-DD
+  start: number; // epoch milliseconds
+  end: number | null; // End of the last glassy hour; null for an onset
+  description: string;
+}
+
+// Glassy mornings end by local noon; a sea breeze sets in from mid-morning
+// through the afternoon
+const MORNING_END_HOUR = 12;
+const SEA_BREEZE_HOURS = { from: 9, to: 17 };
+
+// Calm, or light and offshore without gusts
+function isGlassy(hour: ScoredHour, profile: ScoringProfile): boolean {
+  const data = hour.surfData;
+  if (!data) return false;
+  if (data.windSpeed < profile.wind.calmKts) return true;
+  return data.windSpeed < profile.wind.lightKts &&
+    isOffshore(windComponents(data.windSpeed, data.windDirection, profile.beachFacingDeg)) &&
+    !isGusty(data.windSpeed, data.windGust, profile);
+}
+
+function onshoreKts(hour: ScoredHour, profile: ScoringProfile): number | null {
+  const data = hour.surfData;
+  return data ? windComponents(data.windSpeed, data.windDirection, profile.beachFacingDeg).onshoreKts : null;
+}
+
+// Named wind events in the hourly forecast: each day's glassy morning (a run
+// of calm or light offshore daylight hours before noon) and the hour the
+// afternoon sea breeze sets in
+export function findWindEvents(hours: ScoredHour[], profile: ScoringProfile, timeZone: string): WindEvent[] {
+  const events: WindEvent[] = [];
+  const byDay = new Map<string, ScoredHour[]>();
+  for (const hour of hours) {
+    const date = localDateString(Date.parse(hour.time), timeZone);
+    byDay.set(date, [...(byDay.get(date) ?? []), hour]);
+  }
+
+  for (const [date, dayHours] of byDay) {
+    // Longest glassy morning run
+    let best: ScoredHour[] = [];
+    let run: ScoredHour[] = [];
+    for (const hour of dayHours) {
+      const timestamp = Date.parse(hour.time);
+      const glassy = hour.daylight && localHour(timestamp, timeZone) < MORNING_END_HOUR && isGlassy(hour, profile);
+      const follows = run.length > 0 && timestamp - Date.parse(run[run.length - 1].time) === HOUR_MS;
+      run = glassy ? (follows ? [...run, hour] : [hour]) : [];
+      if (run.length > best.length) best = run;
+    }
+    if (best.length > 0) {
+      const start = Date.parse(best[0].time);
+      const end = Date.parse(best[best.length - 1].time) + HOUR_MS;
+      events.push({
+        type: 'glassy_morning',
+        date,
+        start,
+        end,
+        description: `Glassy from ${formatLocalTime(start, timeZone)} to ${formatLocalTime(end, timeZone)}`,
+      });
+    }
+
+    // The first hour the onshore wind reaches `lightKts` after being under
+    // `calmKts` earlier in the day; a breeze that blew onshore all day has
+    // no onset
+    let settled = false;
+    for (const hour of dayHours) {
+      const timestamp = Date.parse(hour.time);
+      const hourOfDay = localHour(timestamp, timeZone);
+      const onshore = onshoreKts(hour, profile);
+      if (onshore === null || hourOfDay > SEA_BREEZE_HOURS.to) continue;
+
+      if (onshore < profile.wind.calmKts) {
+        settled = true;
+      } else if (settled && hourOfDay >= SEA_BREEZE_HOURS.from && onshore >= profile.wind.lightKts) {
+        events.push({
+          type: 'sea_breeze_onset',
+          date,
+          start: timestamp,
+          end: null,
+          description: `Sea breeze sets in around ${formatLocalTime(timestamp, timeZone)} (${onshore.toFixed(0)} kts onshore)`,
+        });
+        break;
+      }
+    }
+  }
+
+  return events.sort((a, b) => a.start - b.start);
+}
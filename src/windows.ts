@@ -0,0 +1,185 @@
+import { ScoringProfile } from './profiles.js';
+import { ScoreFactor, ScoreFactorName, SurfData } from './scoring.js';
+import { ScoredHour } from './forecast.js';
+import { HazardType, overridingHazard } from './safety.js';
+import { HOUR_MS, formatLocalTime } from './time.js';
+import { isGusty, isOffshore, windComponents } from './wind.js';
+
+export interface WindowOptions {
+  minScore: number;
+  minHours: number;
+}
+
+// A run of consecutive safe daylight hours scoring at least `minScore`
+export interface SurfWindow {
+  start: number; // epoch milliseconds, first hour
+  end: number; // epoch milliseconds, end of the last hour
+  hours: ScoredHour[];
+  averageScore: number;
+  peakScore: number;
+  peakTime: string;
+  tidePhases: string[]; // Tide states in the order they occur
+  startTideHeight: number | null;
+  endTideHeight: number | null;
+  limitingFactors: string[];
+}
+
+// A factor has to cost at least this many points on average across the window
+// to be reported as holding it back
+const LIMITING_LOSS_POINTS = 5;
+
+const hourTimestamp = (hour: ScoredHour) => Date.parse(hour.time);
+
+const HAZARD_ENDINGS: Record<HazardType, string> = {
+  lightning: 'thunderstorms move in',
+  high_surf: 'surf reaches warning levels',
+  high_wind: 'wind reaches gale force',
+  rip_current: 'rip current risk rises',
+};
+
+const qualifies = (hour: ScoredHour, minScore: number) =>
+  hour.daylight && hour.safety?.safe !== false && hour.result !== null && hour.result.score >= minScore;
+
+function factorPoints(hour: ScoredHour, name: ScoreFactorName): ScoreFactor | undefined {
+  return hour.result?.breakdown.find(f => f.factor === name);
+}
+
+// What changes in the hour after a window to end it, e.g. "wind turns onshore at 11:00 AM"
+function describeEnd(last: ScoredHour, next: ScoredHour | undefined, profile: ScoringProfile, timeZone: string): string {
+  if (!next) return 'forecast ends';
+  if (hourTimestamp(next) - hourTimestamp(last) !== HOUR_MS) {
+    return `forecast data runs out at ${formatLocalTime(hourTimestamp(last) + HOUR_MS, timeZone)}`;
+  }
+
+  const at = formatLocalTime(hourTimestamp(next), timeZone);
+  if (!next.daylight) return `it gets dark at ${at}`;
+  if (!next.result || !next.surfData) return `forecast data runs out at ${at}`;
+  const hazard = next.safety && overridingHazard(next.safety);
+  if (hazard) return `${HAZARD_ENDINGS[hazard.type]} at ${at}`;
+
+  // The factor that lost the most points from the last good hour
+  let worst: { name: ScoreFactorName; loss: number } | null = null;
+  for (const factor of last.result!.breakdown) {
+    const loss = factor.points - (factorPoints(next, factor.factor)?.points ?? 0);
+    if (loss > 0 && (!worst || loss > worst.loss)) {
+      worst = { name: factor.factor, loss };
+    }
+  }
+  if (!worst) return `score drops below the threshold at ${at}`;
+
+  return describeChange(worst.name, last.surfData!, next.surfData, profile, at);
+}
+
+function describeChange(name: ScoreFactorName, before: SurfData, after: SurfData, profile: ScoringProfile, at: string): string {
+  switch (name) {
+    case 'wind': {
+      const offshore = (data: SurfData) => isOffshore(windComponents(data.windSpeed, data.windDirection, profile.beachFacingDeg));
+      if (offshore(before) && !offshore(after)) {
+        return `wind turns onshore at ${at}`;
+      }
+      if (offshore(after) && isGusty(after.windSpeed, after.windGust, profile)) {
+        return `offshore wind turns gusty at ${at}`;
+      }
+      return `wind picks up to ${after.windSpeed.toFixed(0)} kts at ${at}`;
+    }
+    case 'wave_height': {
+      // The height that was scored: breaking at spots with a nearshore transformation
+      const height = (data: SurfData) => data.breakingHeight ?? data.waveHeight;
+      return height(after) < height(before)
+        ? `waves drop to ${height(after).toFixed(1)} ft at ${at}`
+        : `waves grow to ${height(after).toFixed(1)} ft at ${at}`;
+    }
+    case 'wave_period':
+      return `period drops to ${after.wavePeriod.toFixed(0)} s at ${at}`;
+    case 'swell_direction':
+      return `swell swings to ${Math.round(after.swellDirection)}° at ${at}`;
+    case 'swell_quality':
+      return `wind chop builds at ${at}`;
+    case 'tide_state':
+    case 'tide_height':
+      return after.tide === null ? `tide predictions end at ${at}` : `tide is ${after.tide.toLowerCase()} by ${at}`;
+  }
+}
+
+// Factors costing the most points across the window, worst first
+function describeLosses(hours: ScoredHour[]): string[] {
+  const losses = new Map<ScoreFactorName, { total: number; worst: ScoreFactor }>();
+
+  for (const hour of hours) {
+    for (const factor of hour.result!.breakdown) {
+      const loss = Math.max(0, factor.maxPoints - factor.points);
+      const entry = losses.get(factor.factor);
+      if (!entry) {
+        losses.set(factor.factor, { total: loss, worst: factor });
+      } else {
+        entry.total += loss;
+        if (factor.points < entry.worst.points) entry.worst = factor;
+      }
+    }
+  }
+
+  return Array.from(losses.values())
+    .map(({ total, worst }) => ({ average: total / hours.length, worst }))
+    .filter(({ average }) => average >= LIMITING_LOSS_POINTS)
+    .sort((a, b) => b.average - a.average)
+    .map(({ average, worst }) => `${worst.reason} (-${Math.round(average)} pts)`);
+}
+
+function buildWindow(hours: ScoredHour[], next: ScoredHour | undefined, profile: ScoringProfile, timeZone: string): SurfWindow {
+  const scores = hours.map(hour => hour.result!.score);
+  const peakIndex = scores.indexOf(Math.max(...scores));
+
+  const tidePhases: string[] = [];
+  for (const hour of hours) {
+    const state = hour.surfData!.tide;
+    if (state !== null && tidePhases[tidePhases.length - 1] !== state) tidePhases.push(state);
+  }
+
+  const last = hours[hours.length - 1];
+  return {
+    start: hourTimestamp(hours[0]),
+    end: hourTimestamp(last) + HOUR_MS,
+    hours,
+    averageScore: scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    peakScore: scores[peakIndex],
+    peakTime: hours[peakIndex].time,
+    tidePhases,
+    startTideHeight: hours[0].surfData!.tideHeight ?? null,
+    endTideHeight: last.surfData!.tideHeight ?? null,
+    limitingFactors: [describeEnd(last, next, profile, timeZone), ...describeLosses(hours)],
+  };
+}
+
+// Contiguous safe daylight windows of at least `minHours` hours scoring at least
+// `minScore`, best average score first (longer windows win ties)
+export function findBestWindows(
+  scoredHours: ScoredHour[],
+  options: WindowOptions,
+  profile: ScoringProfile,
+  timeZone: string
+): SurfWindow[] {
+  const windows: SurfWindow[] = [];
+  let run: ScoredHour[] = [];
+
+  const closeRun = (next: ScoredHour | undefined) => {
+    if (run.length >= options.minHours) {
+      windows.push(buildWindow(run, next, profile, timeZone));
+    }
+    run = [];
+  };
+
+  for (const hour of scoredHours) {
+    const previous = run[run.length - 1];
+    if (previous && hourTimestamp(hour) - hourTimestamp(previous) !== HOUR_MS) {
+      closeRun(hour);
+    }
+    if (qualifies(hour, options.minScore)) {
+      run.push(hour);
+    } else if (run.length > 0) {
+      closeRun(hour);
+    }
+  }
+  closeRun(undefined);
+
+  return windows.sort((a, b) => b.averageScore - a.averageScore || b.hours.length - a.hours.length);
+}
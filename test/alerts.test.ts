@@ -0,0 +1,252 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AlertRule, AlertState, createAlertRule, deleteAlertRule, evaluateAlert, getAlertRule, getAlertState, matchingHours, parseAlertRequest,
+  restoreAlertRules, startAlertScheduler,
+} from '../src/alerts.js';
+import { Archive, createArchive } from '../src/archive.js';
+import { scoreHourlyForecasts } from '../src/forecast.js';
+import { DEFAULT_PROFILE } from '../src/profiles.js';
+import { startWebhookReceiver } from '../src/receiver.js';
+import { HOUR_MS, MINUTE_MS } from '../src/time.js';
+import { checkWebhookTarget, deliverWebhook, signPayload, verifySignature } from '../src/webhooks.js';
+import { forecastHour, steadyTide } from './helpers.js';
+
+const staugustine = { latitude: 29.8947, longitude: -81.3145 };
+const tide = steadyTide();
+
+// Hourly forecasts from `start`, with the given wave periods
+function hours(start: number, periods: number[]) {
+  const forecasts = periods.map((period, i) => forecastHour(start + i * HOUR_MS, { wave_period: period }));
+  return scoreHourlyForecasts(forecasts, tide, DEFAULT_PROFILE, staugustine);
+}
+
+// A validated request; http is allowed for the local receiver
+const request = (overrides: object = {}) => parseAlertRequest({
+  webhook_url: 'http://127.0.0.1:9/',
+  conditions: [{ metric: 'wave_period_sec', operator: '>=', value: 10 }],
+  within_hours: 6,
+  daylight_only: false,
+  cooldown_minutes: 60,
+  ...overrides,
+}, true).request!;
+
+const rule = (overrides: object = {}): AlertRule => ({
+  id: 'alert',
+  secret: 'secret',
+  createdAt: new Date(0).toISOString(),
+  ...request(overrides),
+});
+
+async function withArchive(run: (archive: Archive, dir: string) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-alerts-'));
+  try {
+    await run(await createArchive(dir), dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+const initial: AlertState = { matching: false, lastEvaluatedAt: null, lastNotifiedAt: null, lastNotifiedHour: null, lastDelivery: null };
+const now = Date.UTC(2025, 5, 1, 12);
+
+test('alerts fire when a rule starts matching, once', () => {
+  const alert = rule();
+  const first = evaluateAlert(alert, initial, hours(now, [8, 8, 11, 11]), now);
+
+  assert.equal(first.payload?.first_match.time, new Date(now + 2 * HOUR_MS).toISOString());
+  assert.equal(first.payload?.matching_hours, 2);
+
+  // Still matching an hour later: no repeat
+  const second = evaluateAlert(alert, first.state, hours(now, [8, 8, 11, 11]), now + HOUR_MS);
+  assert.equal(second.payload, null);
+  assert.equal(second.state.matching, true);
+});
+
+test('hours under a thunderstorm never match', () => {
+  const forecasts = [11, 11, 11].map((period, i) =>
+    forecastHour(now + i * HOUR_MS, { wave_period: period, weather_code: i < 2 ? 95 : 2 }));
+  const stormy = scoreHourlyForecasts(forecasts, tide, DEFAULT_PROFILE, staugustine);
+  const { payload } = evaluateAlert(rule(), initial, stormy, now);
+
+  assert.deepEqual(matchingHours(rule(), stormy, now).map(hour => hour.time), [new Date(now + 2 * HOUR_MS).toISOString()]);
+  assert.equal(payload?.first_match.time, new Date(now + 2 * HOUR_MS).toISOString());
+  assert.equal(payload?.matching_hours, 1);
+});
+
+test('cooldown and de-duplication suppress flickering alerts', () => {
+  const alert = rule();
+  const fired = evaluateAlert(alert, initial, hours(now, [11]), now).state;
+  const stopped = evaluateAlert(alert, fired, hours(now, [8]), now + 10 * MINUTE_MS).state;
+
+  // Starts matching again inside the cooldown
+  assert.equal(evaluateAlert(alert, stopped, hours(now + HOUR_MS, [11]), now + 20 * MINUTE_MS).payload, null);
+  // After the cooldown, but the same first matching hour as before
+  assert.equal(evaluateAlert(alert, stopped, hours(now, [11]), now + 90 * MINUTE_MS).payload, null);
+  // After the cooldown, for a new hour
+  assert.notEqual(evaluateAlert(alert, stopped, hours(now + HOUR_MS, [11]), now + 90 * MINUTE_MS).payload, null);
+});
+
+test('alert requests are validated into typed rules', () => {
+  const { request, errors } = parseAlertRequest({
+    webhook_url: 'https://example.com/hook',
+    conditions: [{ metric: 'score', operator: '>=', value: 65, note: 'ignored' }],
+  });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(request, {
+    spotId: 'st-augustine',
+    profileId: null,
+    webhookUrl: 'https://example.com/hook',
+    conditions: [{ metric: 'score', operator: '>=', value: 65 }],
+    withinHours: 12,
+    daylightOnly: true,
+    cooldownMinutes: 360,
+  });
+
+  const invalid = parseAlertRequest({
+    spot: 'pipeline',
+    webhook_url: 'ftp://example.com',
+    conditions: [{ metric: 'vibes', operator: '=', value: 'good' }],
+    within_hours: 100,
+  });
+  assert.equal(invalid.request, null);
+  assert.equal(invalid.errors.length, 6);
+
+  // Plain http only for local testing
+  const http = { webhook_url: 'http://example.com/hook', conditions: [{ metric: 'score', operator: '>=', value: 65 }] };
+  assert.deepEqual(parseAlertRequest(http).errors, ['webhook_url must be an https URL']);
+  assert.deepEqual(parseAlertRequest(http, true).errors, []);
+  assert.deepEqual(parseAlertRequest(['not', 'an', 'object']).errors, ['Request body must be a JSON object']);
+});
+
+test('webhooks may only target public addresses', async () => {
+  const resolvesTo = (...addresses: string[]) => ({ lookup: async () => addresses.map(address => ({ address })) });
+
+  for (const url of [
+    'https://127.0.0.1/hook',
+    'https://10.1.2.3/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/hook',
+    'https://[::ffff:127.0.0.1]/hook',
+    'https://[fd00::1]/hook',
+  ]) {
+    assert.match((await checkWebhookTarget(url))!, /must not point at a private/, url);
+  }
+  // A public name that also resolves to a private address
+  assert.match((await checkWebhookTarget('https://hooks.example.com/', resolvesTo('93.184.216.34', '192.168.1.10')))!, /192\.168\.1\.10/);
+  assert.equal(await checkWebhookTarget('https://hooks.example.com/', resolvesTo('93.184.216.34', '2606:2800:220:1::')), null);
+  assert.equal(await checkWebhookTarget('https://nowhere.invalid/', { lookup: async () => { throw new Error('ENOTFOUND'); } }),
+    'webhook_url host nowhere.invalid could not be resolved');
+  assert.equal(await checkWebhookTarget('http://example.com/'), 'webhook_url must be an https URL');
+
+  // Local receivers are allowed when asked for
+  assert.equal(await checkWebhookTarget('http://127.0.0.1:4000/', { allowLocal: true }), null);
+});
+
+test('rules are archived and restored with their last notification, deletions included', () => withArchive(async (archive, dir) => {
+  const kept = await createAlertRule(archive, request(), now);
+  const deleted = await createAlertRule(archive, request(), now);
+  assert.equal(await deleteAlertRule(archive, deleted.id, now + MINUTE_MS), true);
+  assert.equal(await deleteAlertRule(archive, deleted.id, now + MINUTE_MS), false);
+  await archive.recordAlertEvent({ type: 'notified', at: now + HOUR_MS, alertId: kept.id, hour: new Date(now + 2 * HOUR_MS).toISOString() });
+
+  try {
+    // What a restart sees
+    restoreAlertRules(await createArchive(dir));
+    assert.deepEqual(getAlertRule(kept.id), kept);
+    assert.equal(getAlertRule(deleted.id), undefined);
+    assert.equal(getAlertState(kept.id)?.lastNotifiedAt, new Date(now + HOUR_MS).toISOString());
+    assert.equal(getAlertState(kept.id)?.lastNotifiedHour, new Date(now + 2 * HOUR_MS).toISOString());
+  } finally {
+    await deleteAlertRule(archive, kept.id);
+  }
+}));
+
+test('signatures verify only with the right secret and a fresh timestamp', () => {
+  const body = JSON.stringify({ hello: 'surf' });
+  const nowSec = Math.floor(now / 1000);
+  const header = signPayload('secret', nowSec, body);
+
+  assert.equal(verifySignature('secret', header, body, nowSec + 60), true);
+  assert.equal(verifySignature('other', header, body, nowSec + 60), false);
+  assert.equal(verifySignature('secret', header, `${body} `, nowSec + 60), false);
+  assert.equal(verifySignature('secret', header, body, nowSec + 3600), false);
+});
+
+test('scheduler delivers a signed webhook end to end, retrying failures', () => withArchive(async archive => {
+  const delays: number[] = [];
+  const alert = await createAlertRule(archive, request());
+  const receiver = await startWebhookReceiver({ secret: alert.secret, failWith: [503, 500] });
+  alert.webhookUrl = receiver.url;
+
+  const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+  const scheduler = startAlertScheduler({
+    intervalMs: HOUR_MS,
+    loadHours: async () => hours(currentHour, [8, 12, 12]),
+    archive,
+    allowLocalWebhooks: true,
+    retry: { maxAttempts: 4, baseDelayMs: 100, timeoutMs: 2000, sleep: async ms => { delays.push(ms); } },
+  });
+
+  try {
+    // The first refresh starts with the scheduler; this waits for it
+    await scheduler.runOnce();
+    assert.equal(receiver.received.length, 1);
+    await scheduler.runOnce();
+
+    assert.equal(receiver.received.length, 1);
+    assert.equal(receiver.received[0].verified, true);
+    assert.equal((receiver.received[0].payload as { alert_id: string }).alert_id, alert.id);
+    assert.deepEqual(delays, [100, 200]);
+    assert.equal(getAlertState(alert.id)?.lastDelivery?.attempts, 3);
+    assert.deepEqual(archive.alertEvents().map(event => event.type), ['created', 'notified']);
+  } finally {
+    scheduler.stop();
+    await deleteAlertRule(archive, alert.id);
+    await receiver.close();
+  }
+}));
+
+test('a failed delivery does not start the cooldown and is retried on the next refresh', () => withArchive(async archive => {
+  const alert = await createAlertRule(archive, request({ cooldown_minutes: 600 }));
+  const receiver = await startWebhookReceiver({ secret: alert.secret, failWith: [500] });
+  alert.webhookUrl = receiver.url;
+
+  const currentHour = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+  const scheduler = startAlertScheduler({
+    intervalMs: HOUR_MS,
+    loadHours: async () => hours(currentHour, [12, 12]),
+    archive,
+    allowLocalWebhooks: true,
+    retry: { maxAttempts: 1, baseDelayMs: 100, timeoutMs: 2000 },
+  });
+
+  try {
+    await scheduler.runOnce();
+    const failed = getAlertState(alert.id)!;
+    assert.equal(failed.lastDelivery?.delivered, false);
+    assert.equal(failed.matching, false);
+    assert.equal(failed.lastNotifiedAt, null);
+    assert.notEqual(failed.lastEvaluatedAt, null);
+
+    await scheduler.runOnce();
+    assert.equal(receiver.received.length, 1);
+    assert.equal(getAlertState(alert.id)?.lastDelivery?.delivered, true);
+    assert.notEqual(getAlertState(alert.id)?.lastNotifiedAt, null);
+  } finally {
+    scheduler.stop();
+    await deleteAlertRule(archive, alert.id);
+    await receiver.close();
+  }
+}));
+
+test('deliveries to local addresses are refused unless allowed', async () => {
+  const result = await deliverWebhook('https://127.0.0.1:9/', 'secret', {}, { maxAttempts: 1, baseDelayMs: 0, timeoutMs: 100 });
+
+  assert.equal(result.delivered, false);
+  assert.equal(result.attempts, 0);
+  assert.match(result.error!, /private, loopback or link-local/);
+});
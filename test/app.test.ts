@@ -0,0 +1,566 @@
+import { test, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+import { createApp } from '../src/app.js';
+import { createArchive } from '../src/archive.js';
+import { clearCache } from '../src/cache.js';
+import { archiveForecast } from '../src/conditions.js';
+import { DEFAULT_PROFILE, restoreSpotProfiles, setSpotProfile, spotProfile } from '../src/profiles.js';
+import { createProviders } from '../src/providers.js';
+import { getDefaultSpot } from '../src/spots.js';
+import { HOUR_MS } from '../src/time.js';
+import { Transport, readCassette, replayTransport } from '../src/transport.js';
+import { VOCABULARY_PACKS } from '../src/vocabulary.js';
+
+// Full /surfability responses from a synthetic St. Augustine cassette for the
+// morning of 2025-05-27, with the clock set to its recording time. The
+// responses were written by hand in each API's format, not recorded.
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const cassette = readCassette(path.join(fixturesDir, 'upstream', 'st-augustine.synthetic.json'));
+const recordedAt = Date.parse(cassette.recordedAt);
+
+// Replay the cassette, except for URLs that `override` answers differently
+function replayWith(override: (url: URL) => Response | Error | null = () => null): Transport {
+  const replay = replayTransport(cassette);
+  return async (url, init) => {
+    const response = override(new URL(url));
+    if (response instanceof Error) throw response;
+    return response ?? replay(url, init);
+  };
+}
+
+const ndbcDown = (url: URL) => url.host === 'www.ndbc.noaa.gov' ? new Response('Service Unavailable', { status: 503 }) : null;
+const marineDown = (url: URL) => url.pathname === '/v1/marine' ? new TypeError('fetch failed') : null;
+// The recorded weather, with the current conditions changed
+const currentWeather = (changes: object) => (url: URL) => {
+  if (url.pathname !== '/v1/forecast') return null;
+  const weather = JSON.parse(cassette.exchanges.find(exchange => exchange.url === url.href)!.body);
+  return Response.json({ ...weather, current: { ...weather.current, ...changes } });
+};
+const thunderstorm = currentWeather({ weather_code: 95 });
+const noGusts = currentWeather({ wind_gusts_10m: null });
+
+async function getSurfability(transport: Transport, spotPath = '/surfability', headers: Record<string, string> = {}) {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-app-'));
+  const app = createApp({ providers: createProviders(transport), archive: await createArchive(dataDir) });
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const res = await fetch(`http://127.0.0.1:${port}${spotPath}`, { headers });
+    return { status: res.status, headers: res.headers, body: await res.json() };
+  } finally {
+    server.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+}
+
+// Stop the clock at `now` for everything that reads Date
+const RealDate = Date;
+function setClock(now: number) {
+  globalThis.Date = class extends RealDate {
+    constructor(value?: number | string | Date) {
+      super(value ?? now);
+    }
+    static now() {
+      return now;
+    }
+  } as DateConstructor;
+}
+
+beforeEach(() => {
+  clearCache();
+  setClock(recordedAt);
+  // The request path logs every upstream response
+  for (const method of ['log', 'warn', 'error'] as const) {
+    mock.method(console, method, () => {});
+  }
+});
+
+afterEach(() => {
+  globalThis.Date = RealDate;
+  mock.restoreAll();
+});
+
+test('scores the current buoy reading with the observed tide', async () => {
+  const { status, headers, body } = await getSurfability(replayWith());
+
+  assert.equal(status, 200);
+  assert.equal(body.spot, 'st-augustine');
+  assert.equal(body.details.data_source, 'NOAA Buoy + NOAA Tides + Weather API');
+  assert.equal(body.details.buoy_observed_at, '2025-05-27T15:30:00.000Z');
+  assert.equal(body.details.wave_height_ft, 3.6);
+  assert.equal(body.details.wave_period_sec, 10.5);
+  assert.deepEqual(body.details.swell, { height_ft: 3.3, period_sec: 10.5, direction_deg: 113 });
+  assert.equal(body.details.tide_height_ft, 3.9);
+  assert.equal(body.details.wind_gust_kts, 11.1);
+  assert.ok(body.details.wind_components.onshore_kts < 0);
+  assert.equal(body.tides.next_high.time, '10:11 PM');
+  assert.equal(body.weather.water_temperature_c, 25.4);
+  assert.equal(body.daylight.is_daylight, true);
+  assert.equal(typeof body.score, 'number');
+  assert.deepEqual(body.details.stale_sources, []);
+  assert.equal(headers.get('X-Cache'), 'tides=miss; age=0, buoy=miss; age=0, marine=miss; age=0, weather=miss; age=0');
+  assert.deepEqual(body.provenance.wave_height, {
+    source: 'NDBC buoy 41117',
+    observed_at: '2025-05-27T15:30:00.000Z',
+    age_minutes: 12,
+    fallback: false,
+    defaulted: false,
+    stale: false,
+  });
+  assert.equal(body.provenance.tide.source, 'NOAA Tides water level');
+  assert.equal(body.confidence.level, 'high');
+  assert.deepEqual(body.rating_flags, []);
+  // The forecast hours are pulled towards this reading
+  assert.equal(body.details.nowcast.observed_at, '2025-05-27T15:30:00.000Z');
+  // No built-in spot opts in to a nearshore transformation, so the offshore height is scored
+  assert.equal(body.details.swell_direction_deg, 105);
+  assert.equal(body.details.nearshore, null);
+  // 78°F water needs no wetsuit; 3.6 ft is big enough for a shortboard
+  assert.equal(body.gear.wetsuit.suit, 'boardshorts or swimsuit');
+  assert.equal(body.gear.board.class, 'shortboard');
+});
+
+test('lists the spots and scores each one by id', async () => {
+  const { body } = await getSurfability(replayWith(), '/spots');
+
+  assert.equal(body.default, 'st-augustine');
+  assert.ok(body.spots.some((spot: { id: string }) => spot.id === 'new-smyrna-beach'));
+  assert.deepEqual(Object.keys(body.spots[0]), [
+    'id', 'name', 'latitude', 'longitude', 'timezone', 'buoy_station', 'tide_station', 'scoring_profile',
+  ]);
+
+  clearCache();
+  const bySpot = await getSurfability(replayWith(), '/spots/st-augustine/surfability');
+  clearCache();
+  const alias = await getSurfability(replayWith());
+  assert.equal(bySpot.status, 200);
+  assert.equal(bySpot.body.score, alias.body.score);
+});
+
+test('answers 404 for an unknown spot', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/spots/nowhere/surfability');
+
+  assert.equal(status, 404);
+  assert.equal(body.error, 'Unknown spot');
+});
+
+test('scores with another profile by request and rejects unknown ones', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/surfability/explain?profile=default');
+  assert.equal(status, 200);
+  assert.equal(body.scoring_profile, 'default');
+
+  const unknown = await getSurfability(replayWith(), '/surfability?profile=nope');
+  assert.equal(unknown.status, 400);
+  assert.equal(unknown.body.error, 'Unknown scoring profile');
+});
+
+test('falls back to the marine forecast when the buoy is down', async () => {
+  const { status, body } = await getSurfability(replayWith(ndbcDown));
+
+  assert.equal(status, 200);
+  assert.equal(body.details.data_source, 'Marine + NOAA Tides + Weather API');
+  assert.equal(body.details.buoy_observed_at, null);
+  // The marine hour nearest 15:42 is 16:00 UTC
+  assert.equal(body.details.wave_height_ft, 2.7);
+  assert.equal(body.details.steepness, null);
+  assert.notEqual(body.details.swell, null);
+  assert.equal(body.provenance.wave_height.source, 'Open-Meteo Marine forecast');
+  assert.equal(body.provenance.wave_height.fallback, true);
+  assert.equal(body.provenance.wave_height.observed_at, '2025-05-27T16:00:00.000Z');
+  assert.equal(body.confidence.level, 'medium');
+  assert.equal(body.details.nowcast, null);
+});
+
+test('scores the buoy without the marine forecast', async () => {
+  const { status, body } = await getSurfability(replayWith(marineDown));
+
+  assert.equal(status, 200);
+  assert.equal(body.details.data_source, 'NOAA Buoy + NOAA Tides + Weather API');
+  assert.equal(body.details.wave_height_ft, 3.6);
+  // Water temperature falls back to a typical value
+  assert.equal(body.weather.water_temperature_c, 22);
+  assert.equal(body.provenance.water_temperature.defaulted, true);
+  assert.deepEqual(body.rating_flags, ['water_temperature_defaulted']);
+});
+
+test('answers 503 when neither the buoy nor the marine forecast has waves', async () => {
+  const { status, body } = await getSurfability(replayWith(url => ndbcDown(url) ?? marineDown(url)));
+
+  assert.equal(status, 503);
+  assert.equal(body.error, 'Insufficient wave data');
+});
+
+test('scores without a gust penalty when the weather has no gusts', async () => {
+  const baseline = await getSurfability(replayWith(), '/surfability/explain');
+  clearCache();
+  const { status, body } = await getSurfability(replayWith(noGusts), '/surfability/explain');
+
+  const wind = (factors: { factor: string; value: object }[]) => factors.find(f => f.factor === 'wind')!.value;
+
+  assert.equal(status, 200);
+  assert.equal('gust_kts' in wind(body.factors), false);
+  assert.equal('gust_kts' in wind(baseline.body.factors), true);
+  assert.equal(body.score, baseline.body.score);
+});
+
+test('uses a mid tide when NOAA returns an error', async () => {
+  const tidesError = (url: URL) => url.host === 'api.tidesandcurrents.noaa.gov' && url.searchParams.get('product') === 'predictions'
+    ? Response.json({ error: { message: 'No Predictions data was found. Please make sure the Datum input is valid.' } })
+    : null;
+  const { status, body } = await getSurfability(replayWith(tidesError));
+
+  assert.equal(status, 200);
+  assert.equal(body.details.tide_state, 'Mid');
+  assert.equal(body.details.tide_height_ft, 1.5);
+  assert.equal(body.tides.next_high, null);
+  // The made-up tide is flagged and earns no points
+  assert.equal(body.provenance.tide.defaulted, true);
+  assert.deepEqual(body.rating_flags, ['tide_defaulted']);
+  assert.ok(body.confidence.reasons.includes('Tide is a default value, not data'));
+});
+
+test('explains the current score factor by factor', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/spots/st-augustine/surfability/explain');
+
+  assert.equal(status, 200);
+  assert.equal(body.max_score, 100);
+  assert.deepEqual(body.thresholds, { excellent: 80, good: 65, marginal: 45 });
+  assert.deepEqual(body.factors.map((f: { factor: string }) => f.factor), [
+    'wave_height', 'wave_period', 'swell_direction', 'swell_quality', 'wind', 'tide_state', 'tide_height',
+  ]);
+  assert.deepEqual(Object.keys(body.factors[0]), ['factor', 'value', 'points', 'max_points', 'reason']);
+  assert.equal(body.score, Math.max(0, Math.min(100, Math.round(body.factors.reduce((sum: number, f: { points: number }) => sum + f.points, 0)))));
+});
+
+test('explains a score with a defaulted tide without its points', async () => {
+  const tidesDown = (url: URL) => url.host === 'api.tidesandcurrents.noaa.gov' ? new TypeError('fetch failed') : null;
+  const { status, body } = await getSurfability(replayWith(tidesDown), '/surfability/explain');
+
+  assert.equal(status, 200);
+  assert.deepEqual(body.rating_flags, ['tide_defaulted']);
+  for (const factor of body.factors.filter((f: { factor: string }) => f.factor.startsWith('tide_'))) {
+    assert.ok(factor.points <= 0);
+  }
+  assert.equal(body.score, body.factors.reduce((sum: number, f: { points: number }) => sum + f.points, 0));
+});
+
+test('scores every upcoming forecast hour', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/spots/st-augustine/forecast?days=2');
+
+  assert.equal(status, 200);
+  assert.equal(body.days, 2);
+  assert.equal(body.scoring_profile, 'default');
+  assert.ok(body.hours.length > 24);
+  const times = body.hours.map((hour: { time: string }) => Date.parse(hour.time));
+  // Hours from now on, one hour apart
+  assert.ok(times[0] >= recordedAt && times[0] < recordedAt + HOUR_MS);
+  times.slice(1).forEach((time: number, i: number) => assert.equal(time - times[i], HOUR_MS));
+  for (const hour of body.hours) {
+    assert.equal(typeof hour.score, 'number');
+    assert.equal(typeof hour.surfable, 'boolean');
+    assert.ok(['Excellent', 'Good', 'Marginal', 'Poor'].includes(hour.rating));
+  }
+});
+
+test('rejects forecast days outside 1-7', async () => {
+  for (const days of ['0', '8', '1.5', 'week']) {
+    const { status, body } = await getSurfability(replayWith(), `/forecast?days=${days}`);
+
+    assert.equal(status, 400, days);
+    assert.equal(body.error, 'Invalid days');
+  }
+});
+
+test('a thunderstorm overhead makes good waves unsurfable', async () => {
+  const clear = await getSurfability(replayWith());
+  clearCache();
+  const { status, body } = await getSurfability(replayWith(thunderstorm));
+
+  assert.equal(status, 200);
+  assert.equal(clear.body.safety.safe, true);
+  assert.equal(body.surfable, false);
+  assert.equal(body.score, clear.body.score);
+  // The waves still score, but the rating says to stay out
+  assert.equal(body.details.traditional_rating, 'Poor');
+  assert.ok(VOCABULARY_PACKS.slang.hazardRatings.includes(body.rating));
+  assert.ok(!VOCABULARY_PACKS.slang.ratings.excellent.includes(body.rating));
+  assert.equal(body.safety.safe, false);
+  assert.deepEqual(body.safety.hazards.find((h: { type: string }) => h.type === 'lightning'), {
+    type: 'lightning',
+    level: 'warning',
+    message: 'Thunderstorms in the area: stay out of the water until 30 minutes after the last thunder',
+    overrides_surfable: true,
+  });
+});
+
+test('flags forecast hours under the afternoon thunderstorm, with gear for each hour', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/forecast?days=2');
+  const storm = body.hours.find((hour: { time: string }) => hour.time === '2025-05-27T20:00:00.000Z');
+
+  assert.equal(status, 200);
+  assert.equal(storm.surfable, false);
+  assert.equal(storm.rating, 'Poor');
+  assert.equal(storm.safety.hazards[0].type, 'lightning');
+  assert.equal(storm.air_temperature_c, 28.4);
+  assert.equal(storm.gear.wetsuit.feels_like_c, 28.4);
+  assert.notEqual(storm.gear.board, null);
+  assert.equal(body.safety.unsafe_hours, 2);
+  assert.deepEqual(body.safety.hazards.find((h: { type: string }) => h.type === 'lightning'), {
+    type: 'lightning', worst_level: 'warning', hours: 2, first_time: '2025-05-27T20:00:00.000Z',
+  });
+});
+
+test('scores for a skill level alongside the baseline', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/surfability?skill=beginner');
+  const baseline = await getSurfability(replayWith());
+
+  assert.equal(status, 200);
+  assert.equal(body.score, baseline.body.score);
+  assert.equal(body.personalized.skill, 'beginner');
+  assert.equal(body.personalized.scoring_profile, 'default-beginner');
+  assert.equal(typeof body.personalized.goodSurfDuration, 'string');
+  // The 3.6 ft waves are over a beginner's ideal
+  assert.ok(body.personalized.score < body.score);
+  assert.equal(baseline.body.personalized, undefined);
+
+  const forecast = await getSurfability(replayWith(), '/forecast?days=2&skill=beginner');
+  assert.equal(forecast.body.skill, 'beginner');
+  assert.deepEqual(Object.keys(forecast.body.hours[0].personalized), ['score', 'rating', 'surfable']);
+});
+
+test('rejects an unknown skill level', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/forecast?skill=expert');
+
+  assert.equal(status, 400);
+  assert.equal(body.error, 'Unknown skill level');
+});
+
+test('phrases the rating the same way for the same spot and hour', async () => {
+  const first = await getSurfability(replayWith());
+  clearCache();
+  const second = await getSurfability(replayWith());
+
+  assert.equal(first.body.rating, second.body.rating);
+  assert.equal(first.body.goodSurfDuration, second.body.goodSurfDuration);
+  assert.equal(first.body.details.vocabulary, 'slang');
+  assert.equal(first.headers.get('Content-Language'), 'en');
+  assert.match(first.headers.get('Vary')!, /Accept-Language/);
+});
+
+test('phrases a forecast hour the same way whenever it is requested', async () => {
+  const first = await getSurfability(replayWith(), '/forecast?days=2');
+  clearCache();
+  setClock(recordedAt + 3 * HOUR_MS);
+  const later = await getSurfability(replayWith(), '/forecast?days=2');
+
+  // The nowcast fades with distance from the buoy reading, so some scores move;
+  // hours left in the same rating band keep their phrase
+  type Hour = { time: string; rating: string | null; fun_rating: string | null };
+  const earlier = new Map<string, Hour>(first.body.hours.map((hour: Hour) => [hour.time, hour]));
+  const shared = later.body.hours.filter((hour: Hour) => hour.rating !== null && earlier.get(hour.time)?.rating === hour.rating);
+  assert.ok(shared.length > 12);
+  for (const hour of shared) {
+    assert.equal(hour.fun_rating, earlier.get(hour.time)!.fun_rating, hour.time);
+  }
+});
+
+test('picks a vocabulary pack from the query or Accept-Language', async () => {
+  const spanish = await getSurfability(replayWith(), '/surfability', { 'Accept-Language': 'fr;q=0.9, es-MX;q=0.8' });
+  assert.equal(spanish.body.details.vocabulary, 'es');
+  // The rest of the body is still English
+  assert.equal(spanish.headers.get('Content-Language'), 'en');
+  assert.ok(VOCABULARY_PACKS.es.ratings.excellent.concat(VOCABULARY_PACKS.es.ratings.good).includes(spanish.body.rating));
+
+  const plain = await getSurfability(replayWith(), '/surfability?vocabulary=no-slang', { 'Accept-Language': 'es' });
+  assert.equal(plain.body.details.vocabulary, 'no-slang');
+  assert.equal(plain.body.rating, plain.body.details.traditional_rating);
+
+  const unknown = await getSurfability(replayWith(), '/surfability?vocabulary=pirate');
+  assert.equal(unknown.status, 400);
+  assert.equal(unknown.body.error, 'Unknown vocabulary');
+});
+
+test('phrases explanations, forecast hours and windows in the negotiated vocabulary', async () => {
+  const plain = VOCABULARY_PACKS['no-slang'].ratings;
+  const explain = await getSurfability(replayWith(), '/surfability/explain?vocabulary=no-slang');
+  assert.equal(explain.body.fun_rating, explain.body.rating);
+  assert.equal(explain.headers.get('Content-Language'), 'en');
+  assert.match(explain.headers.get('Vary')!, /Accept-Language/);
+
+  const forecast = await getSurfability(replayWith(), '/forecast?days=2', { 'Accept-Language': 'es' });
+  const spanish = [...Object.values(VOCABULARY_PACKS.es.ratings).flat(), ...VOCABULARY_PACKS.es.hazardRatings];
+  const scored = forecast.body.hours.filter((hour: { score: number | null }) => hour.score !== null);
+  assert.equal(forecast.headers.get('Content-Language'), 'en');
+  assert.match(forecast.headers.get('Vary')!, /Accept-Language/);
+  assert.ok(scored.length > 0);
+  assert.ok(scored.every((hour: { fun_rating: string }) => spanish.includes(hour.fun_rating)));
+
+  const windows = await getSurfability(replayWith(), '/best-windows?days=2&minScore=0&vocabulary=no-slang');
+  assert.match(windows.headers.get('Vary')!, /Accept-Language/);
+  assert.ok(windows.body.windows.length > 0);
+  assert.ok(windows.body.windows.every((window: { peak_rating: string }) => Object.values(plain).flat().includes(window.peak_rating)));
+
+  assert.equal((await getSurfability(replayWith(), '/best-windows?vocabulary=pirate')).status, 400);
+});
+
+test('rejects tide days that do not exist', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/tides?begin=2025-02-28&end=2025-02-31');
+
+  assert.equal(status, 400);
+  assert.equal(body.error, 'Invalid date');
+  assert.match(body.message, /2025-02-31/);
+});
+
+test('reports how old the buoy trend is', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/buoy/trend?hours=6');
+
+  assert.equal(status, 200);
+  assert.equal(body.latest_observed_at, '2025-05-27T15:30:00.000Z');
+  assert.equal(body.age_minutes, 12);
+  assert.equal(body.stale, false);
+  assert.ok(body.observations.length > 0);
+});
+
+test('serves a stale buoy reading when a refresh fails', async () => {
+  await getSurfability(replayWith());
+
+  setClock(recordedAt + HOUR_MS);
+  const { status, headers, body } = await getSurfability(replayWith(ndbcDown));
+
+  assert.equal(status, 200);
+  assert.equal(body.details.data_source, 'NOAA Buoy + NOAA Tides + Weather API');
+  // Tide predictions are requested from a day before now, so an hour later
+  // their URL wasn't recorded either
+  assert.deepEqual(body.details.stale_sources, ['tides', 'buoy']);
+  assert.match(headers.get('X-Cache')!, /buoy=stale; age=3600/);
+  assert.equal(headers.get('Age'), '3600');
+  assert.equal(body.provenance.wave_height.stale, true);
+  assert.equal(body.provenance.wave_height.age_minutes, 72);
+  assert.equal(body.confidence.level, 'medium');
+});
+
+test('logs rated sessions against the archived forecast and calibrates to them', async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-app-'));
+  const deps = { providers: createProviders(replayWith()), archive: await createArchive(dataDir) };
+  const app = createApp({ ...deps, operatorToken: 'operator' });
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const request = async (method: string, route: string, body?: object, token?: string) => {
+    const res = await fetch(`http://127.0.0.1:${port}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: body && JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  try {
+    // The hourly job archives the forecast the sessions are joined with
+    assert.ok(await archiveForecast(deps, getDefaultSpot(), DEFAULT_PROFILE, 2) > 0);
+    // Surf the forecast hours, then log them the next day
+    const firstHour = Math.ceil(recordedAt / HOUR_MS) * HOUR_MS;
+    setClock(firstHour + 30 * HOUR_MS);
+
+    const invalid = await request('POST', '/sessions', { surfed_at: 'this morning', rating: 6 });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error, 'Invalid session');
+
+    for (let i = 0; i < 12; i++) {
+      const { status, body } = await request('POST', '/sessions', {
+        surfed_at: new Date(firstHour + i * HOUR_MS + 10 * 60_000).toISOString(),
+        rating: 1 + (i % 5),
+      });
+      assert.equal(status, 201);
+      assert.equal(body.spot, 'st-augustine');
+      assert.equal(body.conditions.time, new Date(firstHour + i * HOUR_MS).toISOString());
+      assert.equal(body.conditions.scoring_profile, 'default');
+    }
+    assert.equal((await request('GET', '/sessions')).body.sessions.length, 12);
+
+    const report = await request('GET', '/calibration');
+    assert.equal(report.status, 200);
+    assert.equal(report.body.sessions, 12);
+    assert.equal(report.body.base_profile, 'default');
+    assert.equal(report.body.active_profile, 'default');
+    assert.deepEqual(Object.keys(report.body.weights.fitted), Object.keys(report.body.weights.base));
+    assert.deepEqual(Object.keys(report.body.agreement), ['base', 'calibrated', 'held_out', 'improvement']);
+
+    // Anyone can read the report, but only the operator can switch profiles
+    assert.equal((await request('POST', '/calibration')).status, 401);
+    assert.equal((await request('DELETE', '/spots/st-augustine/calibration', undefined, 'guess')).status, 401);
+    assert.equal((await request('GET', '/spots')).body.spots[0].scoring_profile, 'default');
+
+    const applied = await request('POST', '/calibration', undefined, 'operator');
+    assert.equal(applied.body.active_profile, 'default-calibrated');
+    assert.equal((await request('GET', '/spots')).body.spots[0].scoring_profile, 'default-calibrated');
+    // A restart puts the spot back on the calibrated profile
+    setSpotProfile('st-augustine', null);
+    assert.equal(restoreSpotProfiles(await createArchive(dataDir)), 1);
+    assert.equal(spotProfile(getDefaultSpot()).id, 'default-calibrated');
+
+    const reverted = await request('DELETE', '/spots/st-augustine/calibration', undefined, 'operator');
+    assert.equal(reverted.body.active_profile, 'default');
+    assert.equal(restoreSpotProfiles(await createArchive(dataDir)), 0);
+  } finally {
+    server.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+});
+
+test('needs enough rated sessions to calibrate', async () => {
+  const { status, body } = await getSurfability(replayWith(), '/calibration');
+
+  assert.equal(status, 422);
+  assert.equal(body.error, 'Not enough sessions');
+});
+
+test('manages an alert only with its secret or the operator token', async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-app-'));
+  const app = createApp({
+    providers: createProviders(replayWith()),
+    archive: await createArchive(dataDir),
+    allowLocalWebhooks: true,
+    operatorToken: 'operator',
+  });
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const request = async (method: string, route: string, token?: string, body?: object) => {
+    const res = await fetch(`http://127.0.0.1:${port}${route}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: body && JSON.stringify(body),
+    });
+    return { status: res.status, body: res.status === 204 ? null : await res.json() };
+  };
+
+  try {
+    const created = await request('POST', '/alerts', undefined, {
+      webhook_url: 'http://127.0.0.1:9/',
+      conditions: [{ metric: 'score', operator: '>=', value: 65 }],
+    });
+    assert.equal(created.status, 201);
+    const { id, secret } = created.body;
+
+    assert.equal((await request('GET', '/alerts')).status, 401);
+    assert.equal((await request('GET', '/alerts', secret)).status, 401);
+    assert.deepEqual((await request('GET', '/alerts', 'operator')).body.alerts.map((alert: { id: string }) => alert.id), [id]);
+
+    assert.equal((await request('GET', `/alerts/${id}`)).status, 401);
+    assert.equal((await request('GET', `/alerts/${id}`, secret)).body.id, id);
+    assert.equal((await request('DELETE', `/alerts/${id}`)).status, 401);
+    assert.equal((await request('DELETE', `/alerts/${id}`, 'guess')).status, 401);
+    assert.equal((await request('GET', `/alerts/${id}`, 'operator')).status, 200);
+
+    assert.equal((await request('DELETE', `/alerts/${id}`, secret)).status, 204);
+    assert.equal((await request('DELETE', `/alerts/${id}`, secret)).status, 404);
+  } finally {
+    server.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,117 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CachePolicy, MAX_CACHE_ENTRIES, cacheSize, cached, clearCache } from '../src/cache.js';
+import { MINUTE_MS } from '../src/time.js';
+
+const policy: CachePolicy = { ttlMs: 10 * MINUTE_MS, staleWhileRevalidateMs: 5 * MINUTE_MS, maxStaleMs: 60 * MINUTE_MS };
+
+// A clock the tests move by hand, and a fetcher that counts its calls
+let clock = 0;
+const now = () => clock;
+
+function counter(values: (string | Error)[]) {
+  const fetcher = async () => {
+    const value = values[Math.min(fetcher.calls++, values.length - 1)];
+    if (value instanceof Error) throw value;
+    return value;
+  };
+  fetcher.calls = 0;
+  return fetcher;
+}
+
+beforeEach(() => {
+  clearCache();
+  clock = 0;
+});
+
+test('serves fresh entries from the cache until the TTL passes', async () => {
+  const fetcher = counter(['first', 'second']);
+
+  const miss = await cached('buoy', '41117', fetcher, { policy, now });
+  assert.equal(miss.status, 'miss');
+  assert.equal(miss.value, 'first');
+
+  clock = 9 * MINUTE_MS;
+  const hit = await cached('buoy', '41117', fetcher, { policy, now });
+  assert.equal(hit.status, 'hit');
+  assert.equal(hit.ageMs, 9 * MINUTE_MS);
+  assert.equal(fetcher.calls, 1);
+
+  // Keys are per source and request
+  await cached('marine', '41117', fetcher, { policy, now });
+  assert.equal(fetcher.calls, 2);
+});
+
+test('coalesces concurrent requests for the same key', async () => {
+  const fetcher = counter(['only']);
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () => cached('weather', 'spot', fetcher, { policy, now }))
+  );
+
+  assert.equal(fetcher.calls, 1);
+  assert.ok(results.every(result => result.value === 'only'));
+});
+
+test('serves the old value while revalidating in the background', async () => {
+  const fetcher = counter(['old', 'new']);
+  await cached('tides', '8720587', fetcher, { policy, now });
+
+  clock = 12 * MINUTE_MS;
+  const revalidating = await cached('tides', '8720587', fetcher, { policy, now });
+  assert.equal(revalidating.status, 'revalidating');
+  assert.equal(revalidating.value, 'old');
+
+  await new Promise(resolve => setImmediate(resolve));
+  const refreshed = await cached('tides', '8720587', fetcher, { policy, now });
+  assert.equal(refreshed.status, 'hit');
+  assert.equal(refreshed.value, 'new');
+  assert.equal(fetcher.calls, 2);
+});
+
+test('marks the old value stale when a refresh fails, within maxStale', async () => {
+  const fetcher = counter(['cached', new Error('Buoy API returned 503')]);
+  await cached('buoy', '41117', fetcher, { policy, now });
+
+  clock = 30 * MINUTE_MS;
+  const stale = await cached('buoy', '41117', fetcher, { policy, now });
+  assert.equal(stale.status, 'stale');
+  assert.equal(stale.value, 'cached');
+  assert.equal(stale.ageMs, 30 * MINUTE_MS);
+  assert.equal(stale.error, 'Buoy API returned 503');
+
+  clock = 61 * MINUTE_MS;
+  await assert.rejects(cached('buoy', '41117', fetcher, { policy, now }), /503/);
+});
+
+test('does not cache failures', async () => {
+  const fetcher = counter([new Error('timeout'), 'recovered']);
+  await assert.rejects(cached('marine', 'spot', fetcher, { policy, now }));
+
+  const retried = await cached('marine', 'spot', fetcher, { policy, now });
+  assert.equal(retried.status, 'miss');
+  assert.equal(retried.value, 'recovered');
+});
+
+test('drops entries past maxStale and the least recently used beyond the size cap', async () => {
+  const fetcher = counter(['value']);
+  await cached('tides', 'events:old', fetcher, { policy, now });
+
+  // An hour later the first entry can't be served any more and goes with the next write
+  clock = 60 * MINUTE_MS;
+  await cached('tides', 'events:0', fetcher, { policy, now });
+  assert.equal(cacheSize(), 1);
+
+  for (let i = 1; i < MAX_CACHE_ENTRIES; i++) {
+    await cached('tides', `events:${i}`, fetcher, { policy, now });
+  }
+  assert.equal(cacheSize(), MAX_CACHE_ENTRIES);
+
+  // Reading the oldest entry keeps it; the next least recently used makes room
+  assert.equal((await cached('tides', 'events:0', fetcher, { policy, now })).status, 'hit');
+  await cached('tides', 'events:new', fetcher, { policy, now });
+  assert.equal(cacheSize(), MAX_CACHE_ENTRIES);
+  assert.equal((await cached('tides', 'events:0', fetcher, { policy, now })).status, 'hit');
+  const calls = fetcher.calls;
+  assert.equal((await cached('tides', 'events:1', fetcher, { policy, now })).status, 'miss');
+  assert.equal(fetcher.calls, calls + 1);
+});
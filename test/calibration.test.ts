@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalibrationSample, MIN_CALIBRATION_SESSIONS, calibrate, measureAgreement } from '../src/calibration.js';
+import { DEFAULT_PROFILE, validateProfile } from '../src/profiles.js';
+import { SurfData, calculateSurfability } from '../src/scoring.js';
+
+// Good, clean-period east swell at mid tide; only the onshore wind changes
+const data: SurfData = {
+  waveHeight: 4,
+  wavePeriod: 11,
+  swellDirection: 90,
+  windDirection: 90,
+  windSpeed: 0,
+  tide: 'Mid',
+};
+
+// Surfers who only care about the wind: glassy is a 5, blown out is a 1
+function windSamples(): CalibrationSample[] {
+  return Array.from({ length: 20 }, (_, i) => {
+    const windSpeed = i * 1.5;
+    return { rating: Math.max(1, 5 - Math.floor(windSpeed / 6)), data: { ...data, windSpeed, waveHeight: 3 + (i % 4) } };
+  });
+}
+
+test('ratings that follow the wind raise its weight and agree better', () => {
+  const report = calibrate(windSamples(), DEFAULT_PROFILE);
+
+  assert.equal(report.sessions, 20);
+  assert.equal(report.baseProfileId, 'default');
+  assert.equal(report.profile.id, 'default-calibrated');
+  assert.ok(report.weights.wind > 20, `wind weight ${report.weights.wind}`);
+  assert.ok(report.calibrated.scoreMae < report.baseline.scoreMae);
+  assert.ok(report.calibrated.ratingMatch > report.baseline.ratingMatch);
+  assert.deepEqual(validateProfile(report.profile), []);
+});
+
+test('fitted thresholds stay in order', () => {
+  const { ratingThresholds } = calibrate(windSamples(), DEFAULT_PROFILE);
+
+  assert.ok(ratingThresholds.marginal <= ratingThresholds.good);
+  assert.ok(ratingThresholds.good <= ratingThresholds.excellent);
+});
+
+test('the report measures the calibrated profile against the same sessions', () => {
+  const samples = windSamples();
+  const report = calibrate(samples, DEFAULT_PROFILE);
+
+  assert.deepEqual(report.baseline, measureAgreement(samples, DEFAULT_PROFILE));
+  assert.deepEqual(report.calibrated, measureAgreement(samples, report.profile));
+});
+
+test('held-out agreement scores each session with a fit to the other folds', () => {
+  const report = calibrate(windSamples(), DEFAULT_PROFILE);
+
+  // Sessions the fit hasn't seen agree less well, but the wind still explains them
+  assert.ok(report.heldOut.scoreMae >= report.calibrated.scoreMae);
+  assert.ok(report.heldOut.scoreMae < report.baseline.scoreMae);
+});
+
+test('held-out agreement refits per fold, not per session', () => {
+  const samples = Array.from({ length: 8 }, () => windSamples()).flat();
+  const started = performance.now();
+  const report = calibrate(samples, DEFAULT_PROFILE);
+
+  assert.equal(report.sessions, 160);
+  // Leave-one-out took 160 refits here; five folds take a fraction of that
+  assert.ok(performance.now() - started < 2000, `took ${Math.round(performance.now() - started)} ms`);
+});
+
+test('needs enough sessions to calibrate', () => {
+  assert.throws(() => calibrate(windSamples().slice(0, MIN_CALIBRATION_SESSIONS - 1), DEFAULT_PROFILE), RangeError);
+});
+
+test('weights scale the points of each factor', () => {
+  const plain = calculateSurfability(data, DEFAULT_PROFILE);
+  const doubledWind = calculateSurfability(data, { ...DEFAULT_PROFILE, weights: { wind: 40 } });
+  const wind = (result: typeof plain) => result.breakdown.find(f => f.factor === 'wind')!;
+
+  assert.equal(wind(doubledWind).maxPoints, 40);
+  assert.equal(wind(doubledWind).points, wind(plain).points * 2);
+  assert.equal(doubledWind.breakdown[0].points, plain.breakdown[0].points);
+});
+
+test('rejects unknown or negative weights', () => {
+  const errors = validateProfile({ ...DEFAULT_PROFILE, weights: { wind: -1, crowd: 5 } as any });
+
+  assert.equal(errors.length, 2);
+});
@@ -0,0 +1,4 @@
+#YY  MM DD hh mm WVHT  SwH  SwP  WWH  WWP SwD WWD  STEEPNESS  APD MWD
+#yr  mo dy hr mn    m    m  sec    m  sec  -  degT     -      sec degT
+2025 01 09 03 30  1.6   MM   MM  1.5  5.0  MM NNE      STEEP  4.9  25
+2025 01 09 03 00  1.7   MM   MM  1.6  5.3  MM NNE      STEEP  5.1  22
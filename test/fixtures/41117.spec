@@ -0,0 +1,10 @@
+#YY  MM DD hh mm WVHT  SwH  SwP  WWH  WWP SwD WWD  STEEPNESS  APD MWD
+#yr  mo dy hr mn    m    m  sec    m  sec  -  degT     -      sec degT
+2025 05 27 15 30  1.1  1.0 10.5  0.4  4.0 ESE   E      SWELL  6.5 105
+2025 05 27 15 00  1.1  0.9 10.5  0.5  4.3 ESE   E    AVERAGE  6.4 102
+2025 05 27 14 30   MM   MM   MM   MM   MM  MM  MM         MM   MM  MM
+2025 05 27 14 00  1.0  0.9 10.0  0.5  4.5 ESE ENE    AVERAGE  6.2  98
+2025 05 27 13 30  1.0  0.8 10.0  0.6  4.8   E ENE    AVERAGE  6.0  95
+2025 05 27 13 00  0.9  0.8  9.1  0.5  4.8   E ENE    AVERAGE  5.9  92
+2025 05 27 12 30  0.9   MM   MM  0.5  4.3  MM ENE        N/A  5.7  90
+2025 05 27 12 00  0.8  0.7  9.1  0.4  4.0   E  NE      SWELL  5.8  88
@@ -0,0 +1,2 @@
+<!DOCTYPE html>
+<html><body>Station not found</body></html>
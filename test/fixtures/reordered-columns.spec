@@ -0,0 +1,3 @@
+#YY  MM DD hh mm MWD  APD WVHT  SwP  SwH
+#yr  mo dy hr mn degT sec    m  sec    m
+2024 12 31 23 30  80  7.1  1.5 11.8  1.4
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getConditionsDuration, scoreHourlyForecasts, upcomingHours } from '../src/forecast.js';
+import { DEFAULT_PROFILE } from '../src/profiles.js';
+import { TideData, TideEvent } from '../src/tides.js';
+import { HOUR_MS } from '../src/time.js';
+import { forecastHour } from './helpers.js';
+
+const start = Date.UTC(2025, 5, 1, 2); // 10 PM in Florida
+const staugustine = { latitude: 29.8947, longitude: -81.3145 };
+
+const event = (hours: number, height: number, type: 'H' | 'L'): TideEvent => ({
+  time: new Date(start + hours * HOUR_MS).toISOString(),
+  timestamp: start + hours * HOUR_MS,
+  height,
+  type,
+});
+
+const tide: TideData = {
+  currentHeight: 0.2,
+  heightSource: 'predicted',
+  observedAt: null,
+  state: 'Low',
+  events: [event(0, 0.2, 'L'), event(6, 4.2, 'H'), event(12, 0.4, 'L')],
+  nextHigh: null,
+  nextLow: null,
+  previousHigh: null,
+  previousLow: null,
+};
+
+const hour = (hours: number) => forecastHour(start + hours * HOUR_MS, { wave_period: 9 });
+
+test('each forecast hour is scored with its own tide', () => {
+  const scored = scoreHourlyForecasts([0, 3, 6, 14].map(hour), tide, DEFAULT_PROFILE, staugustine);
+
+  assert.deepEqual(scored.map(h => h.surfData?.tide), ['Low', 'Mid', 'High', null]);
+  assert.ok(Math.abs(scored[1].surfData!.tideHeight! - 2.2) < 1e-9);
+  // Past the last prediction: no tide, no tide points, and flagged as missing
+  assert.equal(scored[3].surfData!.tideHeight, undefined);
+  assert.deepEqual(scored[3].forecast.missing, ['tide']);
+  assert.deepEqual(scored[0].forecast.missing, []);
+  assert.deepEqual(scored[3].result!.breakdown.filter(f => f.factor.startsWith('tide')).map(f => f.points), [0, 0]);
+  // The mid-tide hour picks up both tide factors, the high tide hour neither
+  assert.equal(scored[1].result!.score - scored[2].result!.score, 15);
+});
+
+test('dark hours are flagged and never count as surf time', () => {
+  const hours = Array.from({ length: 24 }, (_, i) => i);
+  const scored = scoreHourlyForecasts(hours.map(hour), { ...tide, events: [] }, DEFAULT_PROFILE, staugustine);
+
+  // 10 PM until first light just before 6 AM local
+  assert.deepEqual(scored.slice(0, 9).map(h => h.daylight), Array(8).fill(false).concat(true));
+  assert.ok(scored.slice(0, 8).every(h => h.result?.surfable));
+
+  const overnight = getConditionsDuration(scored.slice(0, 8), DEFAULT_PROFILE, new Date(start));
+  assert.doesNotMatch(overnight, /^(Good|Brief|Marginal|Sketchy)/);
+  assert.equal(getConditionsDuration(scored, DEFAULT_PROFILE, new Date(start)), 'Good surf for most of the day!');
+});
+
+test('forecast hours are scored in feet and knots', () => {
+  const [scored] = scoreHourlyForecasts([hour(0)], tide, DEFAULT_PROFILE, staugustine);
+
+  assert.ok(Math.abs(scored.surfData!.waveHeight - 3.28084) < 1e-9);
+  assert.ok(Math.abs(scored.surfData!.windSpeed - 5.39957) < 1e-9);
+});
+
+test('upcoming hours start at now', () => {
+  const hours = [0, 1, 2].map(hour);
+
+  assert.deepEqual(upcomingHours(hours, new Date(start + HOUR_MS)), hours.slice(1));
+  assert.deepEqual(upcomingHours(hours, new Date(start + HOUR_MS + 1)), hours.slice(2));
+});
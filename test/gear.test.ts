@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { recommendBoard, recommendGear, recommendWetsuit, windChill } from '../src/gear.js';
+import { SurfData } from '../src/scoring.js';
+
+const data: SurfData = {
+  waveHeight: 3,
+  wavePeriod: 9,
+  swellDirection: 90,
+  windDirection: 270,
+  windSpeed: 5,
+  tide: 'Mid',
+};
+const fahrenheitToC = (f: number) => (f - 32) * 5 / 9;
+
+test('wind chill only applies to cold, windy air', () => {
+  assert.equal(windChill(20, 20), 20);
+  assert.equal(windChill(5, 2), 5);
+  // NWS chart: 30°F with a 15 mph wind feels like 19°F
+  assert.ok(Math.abs(windChill(fahrenheitToC(30), 15 / 1.15078) - fahrenheitToC(19)) < 0.3);
+});
+
+test('picks a wetsuit from the water temperature', () => {
+  const suit = (waterF: number) => recommendWetsuit(fahrenheitToC(waterF), fahrenheitToC(waterF), 0);
+
+  assert.equal(suit(78).suit, 'boardshorts or swimsuit');
+  assert.equal(suit(78).thicknessMm, null);
+  assert.equal(suit(70).suit, '2 mm spring suit or wetsuit top');
+  assert.deepEqual(suit(65).thicknessMm, [3, 2]);
+  assert.equal(suit(60).boots, false);
+  assert.equal(suit(55).boots, true);
+  assert.equal(suit(55).hood, false);
+  assert.deepEqual(suit(50), {
+    suit: '5/4 mm hooded fullsuit', thicknessMm: [5, 4], boots: true, hood: true, gloves: true, feelsLikeC: fahrenheitToC(50), reason: '50°F water',
+  });
+  assert.deepEqual(suit(40).thicknessMm, [6, 5]);
+});
+
+test('goes one step warmer when the air feels much colder than the water', () => {
+  // 64°F water calls for a 3/2, but 40°F air in 15 kts of wind is a 4/3 day
+  const cold = recommendWetsuit(fahrenheitToC(64), fahrenheitToC(40), 15);
+
+  assert.equal(cold.suit, '4/3 mm fullsuit');
+  assert.match(cold.reason, /^64°F water, one step warmer for \d+°F air with wind chill$/);
+  assert.deepEqual(recommendWetsuit(fahrenheitToC(64), fahrenheitToC(60), 15).thicknessMm, [3, 2]);
+});
+
+test('picks a board for the size and shape of the waves', () => {
+  const board = (surfData: Partial<SurfData>) => recommendBoard({ ...data, ...surfData }).board;
+
+  assert.equal(board({ waveHeight: 1.5 }), 'longboard');
+  assert.equal(board({ waveHeight: 2.5, wavePeriod: 12 }), 'mid');
+  assert.equal(board({ waveHeight: 2.5, wavePeriod: 12, steepness: 'STEEP' }), 'fish');
+  assert.equal(board({ waveHeight: 3, wavePeriod: 6 }), 'fish');
+  assert.equal(board({ waveHeight: 4.5 }), 'shortboard');
+  assert.equal(board({ waveHeight: 7, wavePeriod: 8 }), 'shortboard');
+  assert.equal(board({ waveHeight: 7, wavePeriod: 12 }), 'step-up');
+  // The breaking height decides, not the offshore height
+  assert.equal(board({ waveHeight: 1.5, breakingHeight: 4 }), 'shortboard');
+});
+
+test('has no wetsuit call without a water temperature', () => {
+  const gear = recommendGear(data, null, 20);
+
+  assert.equal(gear.wetsuit, null);
+  assert.equal(gear.board.board, 'fish');
+  // Air falls back to the water temperature
+  assert.equal(recommendGear(data, 18, null).wetsuit!.feelsLikeC, 18);
+});
@@ -0,0 +1,47 @@
+import { HourlyForecast } from '../src/forecast.js';
+import { TideData, TideEvent } from '../src/tides.js';
+
+// Fixtures shared by the test files
+
+// A forecast hour at `timestamp`: 1 m at 10 s from the east with a 10 km/h
+// westerly (offshore in St. Augustine) and nothing else reported. Tests
+// override the inputs they are about.
+export function forecastHour(timestamp: number, overrides: Partial<HourlyForecast> = {}): HourlyForecast {
+  return {
+    time: new Date(timestamp).toISOString(),
+    wave_height: 1,
+    wave_period: 10,
+    swell_direction: 90,
+    wind_speed: 10,
+    wind_direction: 270,
+    wind_gust: null,
+    weather_code: null,
+    air_temperature: null,
+    water_temperature: null,
+    swell_height: null,
+    swell_period: null,
+    wind_wave_height: null,
+    wind_wave_period: null,
+    wind_wave_direction: null,
+    missing: [],
+    ...overrides,
+  };
+}
+
+// Slack water: a Mid tide at `height` from 2000 to 2100. The default height
+// is above the default profile's ideal range, so hours only earn the tide
+// state points.
+export function steadyTide(height = 3): TideData {
+  const event = (timestamp: number): TideEvent => ({ time: new Date(timestamp).toISOString(), timestamp, height, type: 'L' });
+  return {
+    currentHeight: height,
+    heightSource: 'predicted',
+    observedAt: null,
+    state: 'Mid',
+    events: [event(Date.UTC(2000, 0, 1)), event(Date.UTC(2100, 0, 1))],
+    nextHigh: null,
+    nextLow: null,
+    previousHigh: null,
+    previousLow: null,
+  };
+}
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseSpectralFile, latestBuoyReading, compassToDegrees, NdbcParseError } from '../src/ndbc.js';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const fixture = (name: string) => fs.readFileSync(path.join(fixturesDir, name), 'utf8');
+
+test('parses every data row with UTC timestamps, newest first', () => {
+  const observations = parseSpectralFile(fixture('41117.spec'));
+
+  assert.equal(observations.length, 8);
+  assert.equal(observations[0].time, '2025-05-27T15:30:00.000Z');
+  assert.equal(observations[7].time, '2025-05-27T12:00:00.000Z');
+  assert.ok(observations.every((o, i) => i === 0 || o.timestamp < observations[i - 1].timestamp));
+});
+
+test('maps each column from the header', () => {
+  const [newest] = parseSpectralFile(fixture('41117.spec'));
+
+  assert.deepEqual(newest, {
+    time: '2025-05-27T15:30:00.000Z',
+    timestamp: Date.UTC(2025, 4, 27, 15, 30),
+    waveHeightM: 1.1,
+    swellHeightM: 1.0,
+    swellPeriodSec: 10.5,
+    swellDirectionDeg: 112.5,
+    windWaveHeightM: 0.4,
+    windWavePeriodSec: 4.0,
+    windWaveDirectionDeg: 90,
+    steepness: 'SWELL',
+    averagePeriodSec: 6.5,
+    meanWaveDirectionDeg: 105,
+  });
+});
+
+test('treats MM as missing per field rather than dropping the row', () => {
+  const observations = parseSpectralFile(fixture('41117.spec'));
+
+  const allMissing = observations.find(o => o.time === '2025-05-27T14:30:00.000Z');
+  assert.ok(allMissing);
+  assert.equal(allMissing.waveHeightM, null);
+  assert.equal(allMissing.meanWaveDirectionDeg, null);
+
+  const swellMissing = observations.find(o => o.time === '2025-05-27T12:30:00.000Z');
+  assert.ok(swellMissing);
+  assert.equal(swellMissing.swellHeightM, null);
+  assert.equal(swellMissing.swellPeriodSec, null);
+  assert.equal(swellMissing.swellDirectionDeg, null);
+  assert.equal(swellMissing.steepness, null);
+  assert.equal(swellMissing.waveHeightM, 0.9);
+  assert.equal(swellMissing.averagePeriodSec, 5.7);
+});
+
+test('reads columns by name when the order differs', () => {
+  const [observation] = parseSpectralFile(fixture('reordered-columns.spec'));
+
+  assert.equal(observation.time, '2024-12-31T23:30:00.000Z');
+  assert.equal(observation.waveHeightM, 1.5);
+  assert.equal(observation.swellHeightM, 1.4);
+  assert.equal(observation.swellPeriodSec, 11.8);
+  assert.equal(observation.averagePeriodSec, 7.1);
+  assert.equal(observation.meanWaveDirectionDeg, 80);
+  assert.equal(observation.windWaveHeightM, null);
+  assert.equal(observation.steepness, null);
+});
+
+test('rejects files without an NDBC header', () => {
+  assert.throws(() => parseSpectralFile(fixture('not-a-buoy-file.spec')), NdbcParseError);
+});
+
+test('latest reading uses the newest complete row', () => {
+  const reading = latestBuoyReading(parseSpectralFile(fixture('41117.spec')));
+
+  assert.ok(reading);
+  assert.equal(reading.observedAt, '2025-05-27T15:30:00.000Z');
+  assert.equal(reading.wavePeriod, 10.5);
+  assert.equal(reading.swellDirection, 105);
+  assert.ok(Math.abs(reading.waveHeight - 3.6) < 0.01);
+});
+
+test('latest reading falls back to the average period without a swell period', () => {
+  const reading = latestBuoyReading(parseSpectralFile(fixture('41117-swell-missing.spec')));
+
+  assert.ok(reading);
+  assert.equal(reading.observedAt, '2025-01-09T03:30:00.000Z');
+  assert.equal(reading.wavePeriod, 4.9);
+  assert.equal(reading.swellDirection, 25);
+});
+
+test('converts compass points to degrees', () => {
+  assert.equal(compassToDegrees('N'), 0);
+  assert.equal(compassToDegrees('ESE'), 112.5);
+  assert.equal(compassToDegrees('NNW'), 337.5);
+  assert.equal(compassToDegrees('XYZ'), null);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateBreakingHeight, shoalingCoefficient, swellAngle, waveNumber } from '../src/nearshore.js';
+import { calculateSurfability } from '../src/scoring.js';
+
+const close = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+test('swell angles are relative to the beach normal', () => {
+  assert.equal(swellAngle(113, 90), 23);
+  assert.equal(swellAngle(45, 90), -45);
+  assert.equal(swellAngle(10, 350), 20);
+  assert.equal(swellAngle(270, 90), 180);
+});
+
+test('wave numbers match the deep and shallow water limits', () => {
+  const omega = 2 * Math.PI / 10;
+  close(waveNumber(10, 1000), omega * omega / 9.81, 1e-9);
+  close(waveNumber(10, 0.5), omega / Math.sqrt(9.81 * 0.5), 0.002);
+});
+
+test('shoaling first lowers then raises waves as the water shallows', () => {
+  close(shoalingCoefficient(10, 1000), 1, 1e-6);
+  // Minimum of about 0.91 in intermediate depth
+  close(shoalingCoefficient(10, 20), 0.92, 0.01);
+  assert.ok(shoalingCoefficient(10, 2) > 1.2);
+});
+
+test('swell straight on breaks bigger than it is offshore', () => {
+  // 1 m at 10 s: Komar & Gaughan gives 0.39 g^0.2 (10 * 1^2)^0.4 = 1.55 m
+  const estimate = estimateBreakingHeight(3.28084, 10, 90, { beachNormalDeg: 90 });
+
+  close(estimate.heightFt, 5.07, 0.01);
+  assert.equal(estimate.swellAngleDeg, 0);
+  assert.equal(estimate.refractionCoefficient, 1);
+});
+
+test('angled swell is spread out by refraction and swell from behind never arrives', () => {
+  const straight = estimateBreakingHeight(4, 10, 90, { beachNormalDeg: 90 });
+  const angled = estimateBreakingHeight(4, 10, 150, { beachNormalDeg: 90 });
+  const behind = estimateBreakingHeight(4, 10, 270, { beachNormalDeg: 90 });
+
+  close(angled.refractionCoefficient, Math.sqrt(0.5), 1e-9);
+  assert.ok(angled.heightFt < straight.heightFt);
+  assert.equal(behind.heightFt, 0);
+});
+
+test('heights measured in intermediate depth are converted to deep water first', () => {
+  const deep = estimateBreakingHeight(4, 10, 90, { beachNormalDeg: 90 });
+  const buoy = estimateBreakingHeight(4, 10, 90, { beachNormalDeg: 90, offshoreDepthM: 20 });
+
+  close(buoy.deepWaterHeightFt, 4 / shoalingCoefficient(10, 20), 1e-9);
+  assert.ok(buoy.heightFt > deep.heightFt);
+});
+
+test('scores the breaking height when there is one', () => {
+  const data = { waveHeight: 1.2, wavePeriod: 12, swellDirection: 90, windDirection: 270, windSpeed: 5, tide: 'Mid' };
+  const offshore = calculateSurfability(data).breakdown[0];
+  const breaking = calculateSurfability({ ...data, breakingHeight: 2.4 }).breakdown[0];
+
+  assert.equal(offshore.points, 0);
+  assert.equal(breaking.points, 25);
+  assert.equal(breaking.value, 2.4);
+  assert.equal(breaking.reason, '2.4 ft breaking (1.2 ft offshore) is within the ideal 2-8 ft range');
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BuoyReading } from '../src/ndbc.js';
+import { blendNowcast, buoyModelBias, nowcastWeight } from '../src/nowcast.js';
+import { HOUR_MS } from '../src/time.js';
+import { mergeSeries } from '../src/timeseries.js';
+import { forecastHour } from './helpers.js';
+
+const start = Date.parse('2025-05-27T12:00:00Z');
+const FT_PER_M = 3.28084;
+
+const reading: BuoyReading = {
+  waveHeight: 4.2,
+  wavePeriod: 11,
+  swellDirection: 100,
+  observedAt: '2025-05-27T12:40:00.000Z',
+  swell: null,
+  windSea: null,
+  steepness: null,
+};
+
+// The model says 2.6 ft at 9 s every hour
+const modelHours = mergeSeries([{
+  source: 'marine',
+  times: [0, 1, 2].map(h => start + h * HOUR_MS),
+  fields: { wave_height: [2.6 / FT_PER_M, 2.6 / FT_PER_M, 2.6 / FT_PER_M], wave_period: [9, 9, 9] },
+}]);
+
+const hour = (hours: number, waveHeightM: number | null = 2.6 / FT_PER_M) =>
+  forecastHour(start + hours * HOUR_MS, { wave_height: waveHeightM, wave_period: 9, swell_direction: 100 });
+
+test('compares the buoy with the nearest model hour', () => {
+  const bias = buoyModelBias(reading, modelHours)!;
+
+  assert.equal(bias.modelTime, '2025-05-27T13:00:00.000Z');
+  assert.ok(Math.abs(bias.waveHeightFt - 1.6) < 1e-9);
+  assert.equal(bias.wavePeriodSec, 2);
+});
+
+test('has no bias without a model hour near the reading', () => {
+  assert.equal(buoyModelBias({ ...reading, observedAt: '2025-05-27T18:00:00.000Z' }, modelHours), null);
+});
+
+test('the weight halves every six hours and stops after a day', () => {
+  assert.equal(nowcastWeight(0), 1);
+  assert.equal(nowcastWeight(6 * HOUR_MS), 0.5);
+  assert.equal(nowcastWeight(-6 * HOUR_MS), 0.5);
+  assert.equal(nowcastWeight(12 * HOUR_MS), 0.25);
+  assert.equal(nowcastWeight(25 * HOUR_MS), 0);
+});
+
+test('blends the bias into near-term hours and reports each correction', () => {
+  const bias = { observedAt: '2025-05-27T12:00:00.000Z', modelTime: '2025-05-27T12:00:00.000Z', waveHeightFt: 1.6, wavePeriodSec: 2 };
+  const [now, sixHours, later] = blendNowcast([hour(0), hour(6), hour(30)], bias);
+
+  assert.ok(Math.abs(now.wave_height! * FT_PER_M - 4.2) < 1e-9);
+  assert.equal(now.wave_period, 11);
+  assert.equal(now.correction!.weight, 1);
+
+  assert.ok(Math.abs(sixHours.wave_height! * FT_PER_M - 3.4) < 1e-9);
+  assert.equal(sixHours.wave_period, 10);
+  assert.ok(Math.abs(sixHours.correction!.waveHeightFt - 0.8) < 1e-9);
+  assert.equal(sixHours.correction!.wavePeriodSec, 1);
+
+  // Past the horizon the raw model is used
+  assert.deepEqual(later, hour(30));
+});
+
+test('corrections never make waves negative and skip hours without waves', () => {
+  const bias = { observedAt: '2025-05-27T12:00:00.000Z', modelTime: '2025-05-27T12:00:00.000Z', waveHeightFt: -5, wavePeriodSec: -20 };
+  const [flat, missing] = blendNowcast([hour(0), hour(1, null)], bias);
+
+  assert.equal(flat.wave_height, 0);
+  assert.equal(flat.wave_period, 2);
+  // The reported correction is what was applied
+  assert.ok(Math.abs(flat.correction!.waveHeightFt + 2.6) < 1e-9);
+  assert.equal(missing.correction, undefined);
+});
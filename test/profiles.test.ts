@@ -0,0 +1,101 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DEFAULT_PROFILE, buildProfile, getProfile, isInSector, loadProfiles, spotProfile, validateProfile } from '../src/profiles.js';
+import { getSpot } from '../src/spots.js';
+
+const profilesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'profiles');
+
+test('derives swell windows from the beach angle and fills in the rest from the default', () => {
+  const profile = buildProfile({ id: 'north-facing', name: 'North-facing', beachFacingDeg: 0, wind: { maxOffshoreKts: 20 } as any });
+
+  assert.deepEqual(profile.swellWindows, { ideal: { from: 315, to: 45 }, acceptable: { from: 300, to: 60 } });
+  assert.equal(profile.wind.maxOffshoreKts, 20);
+  assert.equal(profile.wind.calmKts, DEFAULT_PROFILE.wind.calmKts);
+  assert.deepEqual(profile.ratingThresholds, DEFAULT_PROFILE.ratingThresholds);
+  assert.equal(profile.description, undefined);
+  assert.deepEqual(validateProfile(profile), []);
+});
+
+test('profiles with an offshore wind sector face away from its middle', () => {
+  assert.equal(buildProfile({ id: 'legacy', name: 'Legacy', offshoreSector: { from: 225, to: 315 } }).beachFacingDeg, 90);
+  assert.equal(buildProfile({ id: 'north', name: 'North', offshoreSector: { from: 135, to: 225 } }).beachFacingDeg, 0);
+  assert.equal(buildProfile({ id: 'wraps', name: 'Wraps', offshoreSector: { from: 300, to: 30 } }).beachFacingDeg, 165);
+  // An explicit beach angle wins, and the sector isn't kept on the profile
+  const both = buildProfile({ id: 'both', name: 'Both', beachFacingDeg: 70, offshoreSector: { from: 225, to: 315 } });
+  assert.equal(both.beachFacingDeg, 70);
+  assert.equal('offshoreSector' in both, false);
+  assert.throws(
+    () => buildProfile({ id: 'bad', name: 'Bad', offshoreSector: { from: 225 } as any }),
+    /Invalid scoring profile "bad": offshoreSector must have numeric "from" and "to"/
+  );
+});
+
+test('sectors can wrap through north', () => {
+  const sector = { from: 315, to: 45 };
+
+  assert.ok(isInSector(0, sector));
+  assert.ok(isInSector(350, sector));
+  assert.ok(isInSector(-10, sector));
+  assert.ok(!isInSector(90, sector));
+});
+
+test('lists every problem with a profile', () => {
+  const errors = validateProfile({
+    ...DEFAULT_PROFILE,
+    id: 'Not A Slug',
+    beachFacingDeg: 360,
+    wavePeriodSec: { excellent: 5, good: 7, fair: 3 },
+    ratingThresholds: { excellent: 50, good: 65, marginal: 45 },
+  });
+
+  assert.deepEqual(errors, [
+    'id must be a lowercase slug (letters, digits and dashes)',
+    'beachFacingDeg must be within 0-359',
+    'wavePeriodSec must satisfy excellent >= good >= fair > 0',
+    'ratingThresholds must satisfy 100 >= excellent >= good >= marginal >= 0',
+  ]);
+});
+
+test('loads profile files and skips broken ones', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-profiles-'));
+  fs.writeFileSync(path.join(dir, 'gulf.json'), JSON.stringify({ id: 'gulf-facing', name: 'Gulf-facing beach', beachFacingDeg: 250 }));
+  fs.writeFileSync(path.join(dir, 'broken.json'), '{ "id": ');
+  fs.writeFileSync(path.join(dir, 'invalid.json'), JSON.stringify({ id: 'invalid', name: 'Invalid', ratingThresholds: { excellent: 120, good: 65, marginal: 45 } }));
+  fs.writeFileSync(path.join(dir, 'notes.txt'), 'not a profile');
+  const errors = mock.method(console, 'error', () => {});
+  mock.method(console, 'log', () => {});
+
+  try {
+    const loaded = loadProfiles(dir);
+
+    assert.deepEqual(loaded.map(profile => profile.id), ['gulf-facing']);
+    assert.equal(getProfile('gulf-facing')?.beachFacingDeg, 250);
+    assert.equal(getProfile('invalid'), undefined);
+    assert.equal(errors.mock.callCount(), 2);
+    assert.deepEqual(loadProfiles(path.join(dir, 'missing')), []);
+  } finally {
+    mock.restoreAll();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('spots use their configured profile, or the default when it is not loaded', () => {
+  mock.method(console, 'log', () => {});
+  const warnings = mock.method(console, 'warn', () => {});
+
+  try {
+    loadProfiles(profilesDir);
+    const newSmyrna = getSpot('new-smyrna-beach')!;
+
+    assert.equal(spotProfile(newSmyrna).id, 'east-northeast-facing');
+    assert.equal(spotProfile(getSpot('st-augustine')!).id, 'default');
+    assert.equal(spotProfile({ ...newSmyrna, profileId: 'not-loaded' }), DEFAULT_PROFILE);
+    assert.equal(warnings.mock.callCount(), 1);
+  } finally {
+    mock.restoreAll();
+  }
+});
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CacheInfo } from '../src/cache.js';
+import { FieldProvenance, Provenance, assessConfidence, discountDefaultedInputs, markStale } from '../src/provenance.js';
+import { calculateSurfability } from '../src/scoring.js';
+import { HOUR_MS, MINUTE_MS } from '../src/time.js';
+
+const now = Date.parse('2025-05-27T15:42:00Z');
+const at = (msAgo: number) => new Date(now - msAgo).toISOString();
+
+const buoy: FieldProvenance = { source: 'NDBC buoy 41117', cacheSource: 'buoy', observedAt: at(12 * MINUTE_MS), fallback: false, defaulted: false, stale: false };
+const weather: FieldProvenance = { source: 'Open-Meteo Weather', cacheSource: 'weather', observedAt: at(12 * MINUTE_MS), fallback: false, defaulted: false, stale: false };
+const tide: FieldProvenance = { source: 'NOAA Tides water level', cacheSource: 'tides', observedAt: at(6 * MINUTE_MS), fallback: false, defaulted: false, stale: false };
+const water: FieldProvenance = { source: 'Open-Meteo Marine', cacheSource: 'marine', observedAt: at(12 * MINUTE_MS), fallback: false, defaulted: false, stale: false };
+
+function provenance(waves: FieldProvenance = buoy, overrides: Partial<Provenance> = {}): Provenance {
+  return {
+    waveHeight: waves,
+    wavePeriod: waves,
+    swellDirection: waves,
+    wind: weather,
+    tide,
+    waterTemperature: water,
+    airTemperature: weather,
+    ...overrides,
+  };
+}
+
+const defaultTide: FieldProvenance = { source: 'default', cacheSource: null, observedAt: null, fallback: true, defaulted: true, stale: false };
+
+test('fresh primary sources give full confidence', () => {
+  assert.deepEqual(assessConfidence(provenance(), now), { score: 100, level: 'high', reasons: [] });
+});
+
+test('waves from the marine forecast lower confidence and are reported together', () => {
+  const marine = { ...buoy, source: 'Open-Meteo Marine forecast', cacheSource: 'marine' as const, observedAt: at(-18 * MINUTE_MS), fallback: true };
+  const confidence = assessConfidence(provenance(marine), now);
+
+  // 30% of the 70 points riding on the waves
+  assert.equal(confidence.score, 79);
+  assert.equal(confidence.level, 'medium');
+  assert.deepEqual(confidence.reasons, [
+    'Wave height, wave period and swell direction are from the fallback source Open-Meteo Marine forecast',
+  ]);
+});
+
+test('an old buoy reading and a stale response count against confidence', () => {
+  const old = { ...buoy, observedAt: at(3 * HOUR_MS), stale: true };
+  const confidence = assessConfidence(provenance(old), now);
+
+  // 50% for the age plus 25% for the failed refresh, of 70 points
+  assert.equal(confidence.score, 48);
+  assert.equal(confidence.level, 'low');
+  assert.deepEqual(confidence.reasons, [
+    'Wave height, wave period and swell direction are 3 h old',
+    'Wave height, wave period and swell direction are from a cached NDBC buoy 41117 response after a failed refresh',
+  ]);
+});
+
+test('a defaulted tide loses its whole weight', () => {
+  const confidence = assessConfidence(provenance(buoy, { tide: defaultTide }), now);
+
+  assert.equal(confidence.score, 90);
+  assert.deepEqual(confidence.reasons, ['Tide is a default value, not data']);
+});
+
+test('marks fields read from stale responses', () => {
+  const cache: CacheInfo[] = [
+    { source: 'buoy', status: 'stale', ageMs: HOUR_MS, error: 'NDBC returned 503' },
+    { source: 'weather', status: 'hit', ageMs: MINUTE_MS, error: null },
+  ];
+  const marked = markStale(provenance(), cache);
+
+  assert.equal(marked.waveHeight.stale, true);
+  assert.equal(marked.swellDirection.stale, true);
+  assert.equal(marked.wind.stale, false);
+  assert.equal(marked.tide.stale, false);
+});
+
+test('withholds points earned from a defaulted tide and flags it', () => {
+  const result = calculateSurfability({
+    waveHeight: 3,
+    wavePeriod: 10,
+    swellDirection: 90,
+    windDirection: 270,
+    windSpeed: 5,
+    tide: 'Mid',
+    tideHeight: 1.5,
+  });
+  const tidePoints = result.breakdown
+    .filter(factor => factor.factor === 'tide_state' || factor.factor === 'tide_height')
+    .reduce((sum, factor) => sum + factor.points, 0);
+  assert.ok(tidePoints > 0);
+
+  const discounted = discountDefaultedInputs(result, provenance(buoy, { tide: defaultTide }));
+
+  assert.deepEqual(discounted.flags, ['tide_defaulted']);
+  // Scores are capped at 100, so the uncapped total is what drops
+  const total = (breakdown: typeof result.breakdown) => breakdown.reduce((sum, factor) => sum + factor.points, 0);
+  assert.equal(total(discounted.result.breakdown), total(result.breakdown) - tidePoints);
+  assert.equal(discounted.result.score, Math.min(100, total(discounted.result.breakdown)));
+  const tideState = discounted.result.breakdown.find(factor => factor.factor === 'tide_state')!;
+  assert.equal(tideState.points, 0);
+  assert.match(tideState.reason, /not counted: tide is a default value/);
+});
+
+test('leaves the result alone when nothing is defaulted', () => {
+  const result = calculateSurfability({
+    waveHeight: 3, wavePeriod: 10, swellDirection: 90, windDirection: 270, windSpeed: 5, tide: 'Mid', tideHeight: 1.5,
+  });
+
+  const discounted = discountDefaultedInputs(result, provenance());
+  assert.equal(discounted.result, result);
+  assert.deepEqual(discounted.flags, []);
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getConditionsDuration, scoreHourlyForecasts } from '../src/forecast.js';
+import { DEFAULT_PROFILE } from '../src/profiles.js';
+import { applySafety, assessSafety } from '../src/safety.js';
+import { SurfData, calculateSurfability } from '../src/scoring.js';
+import { HOUR_MS } from '../src/time.js';
+import { DEFAULT_VOCABULARY, VOCABULARY_PACKS } from '../src/vocabulary.js';
+import { findBestWindows } from '../src/windows.js';
+import { forecastHour, steadyTide } from './helpers.js';
+
+// Clean, waist-high conditions on an east-facing beach: no hazards
+const data: SurfData = {
+  waveHeight: 2.5,
+  wavePeriod: 8,
+  swellDirection: 140,
+  windDirection: 270,
+  windSpeed: 8,
+  tide: 'Rising',
+};
+const types = (surfData: SurfData, weatherCode: number | null = 1) =>
+  assessSafety(surfData, weatherCode, DEFAULT_PROFILE).hazards.map(h => `${h.type}:${h.level}`);
+
+test('calm conditions have no hazards', () => {
+  const safety = assessSafety(data, 1, DEFAULT_PROFILE);
+
+  assert.deepEqual(safety, { safe: true, hazards: [], ripCurrentRisk: 'low' });
+});
+
+test('thunderstorm codes are a lightning warning', () => {
+  assert.deepEqual(types(data, 95), ['lightning:warning']);
+  assert.deepEqual(types(data, 99), ['lightning:warning']);
+  assert.deepEqual(types(data, 82), []);
+  assert.deepEqual(types(data, null), []);
+  assert.equal(assessSafety(data, 96, DEFAULT_PROFILE).safe, false);
+});
+
+test('high surf is an advisory, then a warning that overrides surfable', () => {
+  const advisory = assessSafety({ ...data, waveHeight: 8 }, 1, DEFAULT_PROFILE);
+  const warning = assessSafety({ ...data, waveHeight: 9, breakingHeight: 11 }, 1, DEFAULT_PROFILE);
+
+  assert.deepEqual(advisory.hazards.map(h => h.type), ['high_surf']);
+  assert.equal(advisory.safe, true);
+  assert.equal(warning.hazards[0].message, '11.0 ft surf is at high surf warning levels (10+ ft)');
+  assert.equal(warning.safe, false);
+});
+
+test('strong wind is an advisory; gale-force wind or gusts are a warning', () => {
+  assert.deepEqual(types({ ...data, windSpeed: 22 }), ['high_wind:advisory']);
+  assert.deepEqual(types({ ...data, windSpeed: 35 }), ['high_wind:warning']);
+  assert.deepEqual(types({ ...data, windSpeed: 25, windGust: 38 }), ['high_wind:warning']);
+});
+
+test('rip current risk grows with size, period, straight-on swell and a dropping tide', () => {
+  const risk = (surfData: SurfData) => assessSafety(surfData, 1, DEFAULT_PROFILE).ripCurrentRisk;
+
+  assert.equal(risk({ ...data, waveHeight: 3.5, wavePeriod: 10 }), 'low');
+  assert.equal(risk({ ...data, waveHeight: 3.5, wavePeriod: 10, swellDirection: 95 }), 'moderate');
+  assert.equal(risk({ ...data, waveHeight: 5, wavePeriod: 13, swellDirection: 95, tide: 'Falling' }), 'high');
+
+  // Rip currents are reported but don't override surfable
+  const high = assessSafety({ ...data, waveHeight: 5, wavePeriod: 13, swellDirection: 95, tide: 'Low' }, 1, DEFAULT_PROFILE);
+  assert.equal(high.safe, true);
+  assert.deepEqual(high.hazards.map(h => `${h.type}:${h.level}`), ['rip_current:warning']);
+});
+
+test('an overriding hazard keeps the score but makes conditions unsurfable and poor', () => {
+  const result = calculateSurfability(data);
+  const stormy = applySafety(result, assessSafety(data, 95, DEFAULT_PROFILE));
+
+  assert.equal(result.surfable, true);
+  assert.equal(stormy.surfable, false);
+  assert.equal(stormy.score, result.score);
+  assert.equal(stormy.rating, 'Poor');
+  assert.ok(DEFAULT_VOCABULARY.hazardRatings.includes(stormy.funRating));
+  assert.equal(applySafety(result, assessSafety(data, 95, DEFAULT_PROFILE), { vocabulary: VOCABULARY_PACKS['no-slang'], seed: 'x' }).funRating, 'Unsafe');
+  assert.equal(applySafety(result, assessSafety(data, 1, DEFAULT_PROFILE)), result);
+});
+
+// Four surfable midday hours in St. Augustine with a thunderstorm in the third
+const start = Date.UTC(2025, 5, 1, 15);
+const tide = steadyTide();
+const hour = (hours: number, weatherCode: number) =>
+  forecastHour(start + hours * HOUR_MS, { wave_period: 11, swell_direction: 140, wind_speed: 8, weather_code: weatherCode });
+
+test('forecast hours under a thunderstorm break up windows and streaks', () => {
+  const scored = scoreHourlyForecasts([hour(0, 2), hour(1, 2), hour(2, 95), hour(3, 2)], tide, DEFAULT_PROFILE, { latitude: 29.9, longitude: -81.3 });
+
+  assert.deepEqual(scored.map(h => h.result!.surfable), [true, true, false, true]);
+  assert.deepEqual(scored[2].safety!.hazards.map(h => h.type), ['lightning']);
+
+  const [best] = findBestWindows(scored, { minScore: 0, minHours: 2 }, DEFAULT_PROFILE, 'America/New_York');
+  assert.equal(best.hours.length, 2);
+  assert.equal(best.limitingFactors[0], 'thunderstorms move in at 1:00 PM');
+
+  assert.equal(getConditionsDuration(scored, DEFAULT_PROFILE, new Date(start)), getConditionsDuration(scored.slice(0, 2), DEFAULT_PROFILE, new Date(start)));
+});
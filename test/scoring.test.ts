@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SurfData, calculateSurfability, scoreFactors } from '../src/scoring.js';
+
+const baseline: SurfData = {
+  waveHeight: 3,
+  wavePeriod: 8,
+  swellDirection: 90,
+  windDirection: 270,
+  windSpeed: 8,
+  tide: 'Rising',
+  tideHeight: 1.5,
+};
+
+const factor = (data: SurfData, name: string) => scoreFactors(data).find(f => f.factor === name)!;
+
+test('default profile keeps the original point values', () => {
+  const result = calculateSurfability(baseline);
+
+  assert.deepEqual(
+    result.breakdown.map(f => [f.factor, f.points]),
+    [
+      ['wave_height', 25],
+      ['wave_period', 20],
+      ['swell_direction', 20],
+      ['swell_quality', 0],
+      ['wind', 20],
+      ['tide_state', 10],
+      ['tide_height', 5],
+    ]
+  );
+  assert.equal(result.score, 100);
+  assert.equal(result.rating, 'Excellent');
+  assert.equal(result.surfable, true);
+});
+
+test('each factor explains its points', () => {
+  const data = { ...baseline, wavePeriod: 6, swellDirection: 140, windDirection: 90, windSpeed: 14, tide: 'Low', tideHeight: 0.2 };
+  const breakdown = scoreFactors(data);
+
+  assert.deepEqual(breakdown.map(f => [f.factor, f.value, f.points, f.maxPoints]), [
+    ['wave_height', 3, 25, 25],
+    ['wave_period', 6, 10, 25],
+    ['swell_direction', 140, 10, 20],
+    ['swell_quality', null, 0, 5],
+    ['wind', { speed_kts: 14, direction_deg: 90, onshore_kts: 14, cross_shore_kts: 0 }, 0, 20],
+    ['tide_state', 'Low', 0, 10],
+    ['tide_height', 0.2, 0, 5],
+  ]);
+  assert.equal(breakdown[2].reason, '140° is at the edge of the swell window (30-150°)');
+  assert.equal(breakdown[4].reason, '14.0 kts onshore from 90° chops up the surface');
+  assert.equal(calculateSurfability(data).score, breakdown.reduce((sum, f) => sum + f.points, 0));
+});
+
+test('clean groundswell earns the swell quality bonus', () => {
+  const quality = factor({
+    ...baseline,
+    swell: { height: 3, period: 12, direction: 95 },
+    windSea: { height: 0.8, period: 4, direction: 60 },
+    steepness: 'SWELL',
+  }, 'swell_quality');
+
+  assert.equal(quality.points, 5);
+  assert.match(quality.reason, /groundswell/);
+});
+
+test('short-period wind chop is penalized', () => {
+  const quality = factor({
+    ...baseline,
+    swell: { height: 1, period: 9, direction: 95 },
+    windSea: { height: 3, period: 5, direction: 60 },
+  }, 'swell_quality');
+
+  assert.equal(quality.points, -10);
+  assert.match(quality.reason, /wind chop/);
+});
+
+test('the same height scores differently as groundswell and as chop', () => {
+  const onshore = { ...baseline, windDirection: 90, windSpeed: 12 };
+  const groundswell = calculateSurfability({
+    ...onshore,
+    waveHeight: 3,
+    wavePeriod: 12,
+    swell: { height: 2.9, period: 12, direction: 95 },
+    windSea: { height: 0.5, period: 4, direction: 60 },
+  });
+  const chop = calculateSurfability({
+    ...onshore,
+    waveHeight: 3,
+    wavePeriod: 5,
+    swell: { height: 0.5, period: 9, direction: 95 },
+    windSea: { height: 2.9, period: 5, direction: 60 },
+  });
+
+  assert.ok(groundswell.score - chop.score >= 25);
+});
+
+test('scores never go below zero', () => {
+  const result = calculateSurfability({
+    waveHeight: 0.5,
+    wavePeriod: 3,
+    swellDirection: 270,
+    windDirection: 90,
+    windSpeed: 25,
+    tide: 'Low',
+    windSea: { height: 0.5, period: 3, direction: 90 },
+  });
+
+  assert.equal(result.score, 0);
+  assert.equal(result.rating, 'Poor');
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ArchivedForecastHour, createArchive } from '../src/archive.js';
+import { scoreHourlyForecasts } from '../src/forecast.js';
+import { DEFAULT_PROFILE } from '../src/profiles.js';
+import { calculateSurfability } from '../src/scoring.js';
+import { archivedSurfData, createSession, loadSessions, parseSessionRequest, sessionConditions } from '../src/sessions.js';
+import { getSpot } from '../src/spots.js';
+import { HOUR_MS, MINUTE_MS } from '../src/time.js';
+import { forecastHour as hourlyForecast, steadyTide } from './helpers.js';
+
+const now = Date.UTC(2025, 5, 1, 18);
+const hour = Date.UTC(2025, 5, 1, 14);
+
+const errors = (body: unknown) => parseSessionRequest(body, now).errors;
+const logged = (body: object) => createSession(parseSessionRequest(body, now).request!, now);
+
+function forecastHour(validAt: number, leadHours: number, score: number): ArchivedForecastHour {
+  return {
+    spotId: 'st-augustine',
+    profileId: 'default',
+    buoyStation: '41117',
+    issuedAt: validAt - leadHours * HOUR_MS,
+    validAt,
+    leadHours,
+    waveHeightFt: 3,
+    wavePeriodSec: 9,
+    swellDirectionDeg: 90,
+    windSpeedKts: 8,
+    windDirectionDeg: 270,
+    tide: 'Mid',
+    tideHeightFt: 2,
+    score,
+    surfable: true,
+  };
+}
+
+test('validates session requests into typed sessions', () => {
+  assert.deepEqual(parseSessionRequest({ surfed_at: '2025-06-01T14:00:00Z', rating: 4 }, now), {
+    request: { spotId: 'st-augustine', surfedAt: hour, rating: 4, notes: null },
+    errors: [],
+  });
+  assert.deepEqual(errors({ spot: 'nowhere', surfed_at: 'yesterday', rating: 4.5, notes: 7 }), [
+    'spot "nowhere" is not a known spot id',
+    'surfed_at must be an ISO 8601 timestamp',
+    'rating must be a whole number from 1 to 5',
+    'notes must be text of at most 500 characters',
+  ]);
+  assert.deepEqual(errors({ surfed_at: '2025-06-02T14:00:00Z', rating: 3 }), ['surfed_at must not be in the future']);
+  assert.deepEqual(errors(null), ['Request body must be a JSON object']);
+});
+
+test('joins a session with the nearest hour from the latest forecast', () => {
+  const session = logged({ surfed_at: new Date(hour + 20 * MINUTE_MS).toISOString(), rating: 4 });
+  const forecasts = [forecastHour(hour, 12, 50), forecastHour(hour, 2, 60), forecastHour(hour + HOUR_MS, 3, 70)];
+
+  assert.equal(session.spotId, 'st-augustine');
+  assert.equal(sessionConditions(session, forecasts)?.score, 60);
+  assert.equal(sessionConditions({ ...session, surfedAt: hour - HOUR_MS }, forecasts), null);
+  assert.equal(sessionConditions({ ...session, spotId: 'other' }, forecasts), null);
+});
+
+test('archives sessions and loads them joined', async () => {
+  const archive = await createArchive(fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-sessions-')));
+  const session = logged({ surfed_at: new Date(hour).toISOString(), rating: 5, notes: 'Glassy' });
+
+  assert.equal(await archive.recordSession(session), 1);
+  assert.equal(await archive.recordSession(session), 0);
+
+  const [joined] = loadSessions(archive, 'st-augustine');
+  assert.deepEqual(joined.session, session);
+  assert.equal(joined.conditions, null);
+  assert.deepEqual(loadSessions(archive, 'other'), []);
+});
+
+test('archived conditions keep the partitions they were scored on', async () => {
+  const archive = await createArchive(fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-sessions-')), { now: () => hour });
+  // A long-period groundswell under short, steep wind chop
+  const choppy = hourlyForecast(hour, { swell_height: 0.6, swell_period: 12, wind_wave_height: 0.8, wind_wave_period: 4, wind_wave_direction: 60 });
+  const [scored] = scoreHourlyForecasts([choppy], steadyTide(), DEFAULT_PROFILE, getSpot('st-augustine')!);
+  await archive.recordForecast('st-augustine', 'default', '41117', [scored], hour);
+
+  const restored = archivedSurfData(archive.forecasts('st-augustine')[0]);
+  assert.deepEqual(restored.swell, scored.surfData!.swell);
+  assert.deepEqual(restored.windSea, scored.surfData!.windSea);
+  assert.equal(calculateSurfability(restored, DEFAULT_PROFILE).score, scored.result!.score);
+  const { swell, windSea, ...totalOnly } = restored;
+  assert.notEqual(calculateSurfability(totalOnly, DEFAULT_PROFILE).score, scored.result!.score);
+});
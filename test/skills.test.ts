@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PROFILE, validateProfile } from '../src/profiles.js';
+import { SurfData, calculateSurfability } from '../src/scoring.js';
+import { applySkill, isSkillLevel } from '../src/skills.js';
+
+// Clean, long-period groundswell with offshore wind at mid tide
+const data: SurfData = {
+  waveHeight: 7,
+  wavePeriod: 12,
+  swellDirection: 90,
+  windDirection: 270,
+  windSpeed: 8,
+  tide: 'Mid',
+};
+const rating = (surfData: SurfData, profile = DEFAULT_PROFILE) => calculateSurfability(surfData, profile).rating;
+
+test('skill levels keep the spot geometry and change the bands', () => {
+  const beginner = applySkill(DEFAULT_PROFILE, 'beginner');
+
+  assert.equal(beginner.id, 'default-beginner');
+  assert.equal(beginner.beachFacingDeg, DEFAULT_PROFILE.beachFacingDeg);
+  assert.deepEqual(beginner.swellWindows, DEFAULT_PROFILE.swellWindows);
+  assert.deepEqual(beginner.waveHeightFt, { ideal: { min: 1, max: 3 }, rideableMin: 0.5, maxFt: 5 });
+  // Only the wind cutoffs the level sets change
+  assert.equal(beginner.wind.calmKts, DEFAULT_PROFILE.wind.calmKts);
+  assert.equal(beginner.wind.maxOffshoreKts, 10);
+  assert.deepEqual(validateProfile(beginner), []);
+
+  const intermediate = applySkill(DEFAULT_PROFILE, 'intermediate');
+  assert.deepEqual({ ...intermediate, id: DEFAULT_PROFILE.id, name: DEFAULT_PROFILE.name }, DEFAULT_PROFILE);
+});
+
+test('a skill level never puts its light-wind cutoff under the calm cutoff', () => {
+  const sheltered = { ...DEFAULT_PROFILE, wind: { ...DEFAULT_PROFILE.wind, calmKts: 9, lightKts: 14 } };
+  const beginner = applySkill(sheltered, 'beginner');
+
+  assert.equal(beginner.wind.calmKts, 9);
+  assert.equal(beginner.wind.lightKts, 9);
+  assert.deepEqual(validateProfile(beginner), []);
+  assert.equal(applySkill(DEFAULT_PROFILE, 'beginner').wind.lightKts, 8);
+});
+
+test('a big clean day is excellent for experts and poor for beginners', () => {
+  const beginner = calculateSurfability(data, applySkill(DEFAULT_PROFILE, 'beginner'));
+
+  assert.equal(rating(data), 'Excellent');
+  assert.equal(rating(data, applySkill(DEFAULT_PROFILE, 'advanced')), 'Excellent');
+  assert.equal(beginner.rating, 'Poor');
+  assert.equal(beginner.surfable, false);
+  assert.equal(beginner.breakdown[0].reason, '7.0 ft is too big (over 5 ft)');
+});
+
+test('a small day is great on a longboard and barely counts for experts', () => {
+  // Knee-high with a light cross-shore breeze
+  const small = { ...data, waveHeight: 1.5, wavePeriod: 8, windSpeed: 11, windDirection: 0 };
+
+  assert.equal(rating(small), 'Good');
+  assert.equal(rating(small, applySkill(DEFAULT_PROFILE, 'longboarder')), 'Excellent');
+  assert.equal(rating(small, applySkill(DEFAULT_PROFILE, 'advanced')), 'Marginal');
+});
+
+test('recognizes skill levels', () => {
+  assert.ok(isSkillLevel('longboarder'));
+  assert.ok(!isSkillLevel('expert'));
+  assert.ok(!isSkillLevel('toString'));
+});
+
+test('maxFt must not be under the ideal maximum', () => {
+  const errors = validateProfile({ ...DEFAULT_PROFILE, waveHeightFt: { ideal: { min: 2, max: 8 }, rideableMin: 1.5, maxFt: 6 } });
+
+  assert.deepEqual(errors, ['waveHeightFt.maxFt must be a number no less than waveHeightFt.ideal.max']);
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SPOT_ID, getDefaultSpot, getSpot, spots } from '../src/spots.js';
+
+test('spot ids are unique slugs', () => {
+  const ids = spots.map(spot => spot.id);
+
+  assert.equal(new Set(ids).size, ids.length);
+  for (const id of ids) assert.match(id, /^[a-z0-9][a-z0-9-]*$/);
+});
+
+test('every spot has coordinates, a time zone and NOAA stations', () => {
+  for (const spot of spots) {
+    assert.ok(Math.abs(spot.latitude) <= 90 && Math.abs(spot.longitude) <= 180, spot.id);
+    assert.doesNotThrow(() => new Intl.DateTimeFormat('en-US', { timeZone: spot.timezone }), spot.id);
+    assert.match(spot.buoyStation, /^\d{5}$/, spot.id);
+    assert.match(spot.tideStation, /^\d{7}$/, spot.id);
+  }
+});
+
+test('looks spots up by id', () => {
+  assert.equal(getSpot('flagler-beach')?.name, 'Flagler Beach, FL');
+  assert.equal(getSpot('nowhere'), undefined);
+  assert.equal(getDefaultSpot().id, DEFAULT_SPOT_ID);
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isDaylight, solarElevation, sunTimes } from '../src/sun.js';
+import { MINUTE_MS } from '../src/time.js';
+
+const staugustine = { latitude: 29.8947, longitude: -81.3145 };
+
+const assertNear = (actual: number | null, expected: string, toleranceMinutes = 2) => {
+  assert.ok(actual !== null);
+  const diff = Math.abs(actual - Date.parse(expected)) / MINUTE_MS;
+  assert.ok(diff <= toleranceMinutes, `${new Date(actual).toISOString()} is ${diff.toFixed(1)} min from ${expected}`);
+};
+
+test('sun times match published almanac values', () => {
+  // USNO: St. Augustine on the June solstice, 6:25 AM and 8:29 PM EDT
+  const june = sunTimes('2025-06-21', staugustine);
+  assertNear(june.sunrise, '2025-06-21T10:25:00Z');
+  assertNear(june.sunset, '2025-06-22T00:29:00Z');
+  assertNear(june.firstLight, '2025-06-21T09:58:00Z');
+  assertNear(june.lastLight, '2025-06-22T00:56:00Z');
+
+  // December solstice, 7:17 AM and 5:30 PM EST
+  const december = sunTimes('2025-12-21', staugustine);
+  assertNear(december.sunrise, '2025-12-21T12:17:00Z');
+  assertNear(december.sunset, '2025-12-21T22:30:00Z');
+});
+
+test('daylight runs from civil dawn to civil dusk', () => {
+  const { firstLight, lastLight, solarNoon } = sunTimes('2025-06-21', staugustine);
+
+  assert.equal(isDaylight(firstLight! - 5 * MINUTE_MS, staugustine), false);
+  assert.equal(isDaylight(firstLight! + 5 * MINUTE_MS, staugustine), true);
+  assert.equal(isDaylight(lastLight! + 5 * MINUTE_MS, staugustine), false);
+  assert.ok(solarElevation(solarNoon, staugustine) > 80);
+});
+
+test('polar night has no sunrise', () => {
+  const times = sunTimes('2025-12-21', { latitude: 78.2, longitude: 15.6 });
+
+  assert.equal(times.sunrise, null);
+  assert.equal(times.sunset, null);
+});
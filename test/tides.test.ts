@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TideEvent, buildTideCurve, interpolateTide, parseNoaaTime, summarizeTide, tideAt } from '../src/tides.js';
+import { HOUR_MS, MINUTE_MS, localDateString, startOfLocalDay } from '../src/time.js';
+
+const event = (time: string, height: number, type: 'H' | 'L'): TideEvent => {
+  const timestamp = parseNoaaTime(time);
+  return { time: new Date(timestamp).toISOString(), timestamp, height, type };
+};
+
+const events = [
+  event('2025-06-01 02:00', 0.2, 'L'),
+  event('2025-06-01 08:00', 4.2, 'H'),
+  event('2025-06-01 14:00', 0.4, 'L'),
+];
+
+test('NOAA GMT times parse as UTC', () => {
+  assert.equal(parseNoaaTime('2025-06-01 08:00'), Date.UTC(2025, 5, 1, 8, 0));
+});
+
+test('interpolation hits the turning points and the midpoint', () => {
+  const atLow = interpolateTide(events, events[0].timestamp)!;
+  const atHigh = interpolateTide(events, events[1].timestamp)!;
+  const halfway = interpolateTide(events, events[0].timestamp + 3 * HOUR_MS)!;
+
+  assert.equal(atLow.height, 0.2);
+  assert.ok(Math.abs(atHigh.height - 4.2) < 1e-9);
+  assert.ok(Math.abs(atHigh.rateFtPerHour) < 1e-9);
+  assert.ok(Math.abs(halfway.height - 2.2) < 1e-9);
+  // Peak rate of a half-cosine is range * pi / 2 / duration
+  assert.ok(Math.abs(halfway.rateFtPerHour - 4 * Math.PI / 2 / 6) < 1e-9);
+});
+
+test('falling tide has a negative rate and nothing is invented outside the events', () => {
+  assert.ok(interpolateTide(events, events[1].timestamp + HOUR_MS)!.rateFtPerHour < 0);
+  assert.equal(interpolateTide(events, events[0].timestamp - MINUTE_MS), null);
+  assert.equal(interpolateTide(events, events[2].timestamp + MINUTE_MS), null);
+});
+
+test('tide state follows the cycle between turning points', () => {
+  const stateAt = (hoursAfterFirstLow: number) => tideAt(events, events[0].timestamp + hoursAfterFirstLow * HOUR_MS)!.state;
+
+  assert.deepEqual(
+    [0, 1.8, 3, 4.2, 6, 7.8, 9, 10.2, 12].map(stateAt),
+    ['Low', 'Rising', 'Mid', 'Rising', 'High', 'Falling', 'Mid', 'Falling', 'Low']
+  );
+  assert.equal(tideAt(events, events[2].timestamp + HOUR_MS), null);
+});
+
+test('the same readings are summarized for the time they are read at', () => {
+  const readings = { observed: null, events };
+  const midRise = summarizeTide(readings, events[0].timestamp + 3 * HOUR_MS);
+  const pastHigh = summarizeTide(readings, events[1].timestamp + 10 * MINUTE_MS);
+
+  assert.equal(midRise.state, 'Mid');
+  assert.equal(midRise.heightSource, 'predicted');
+  assert.equal(midRise.nextHigh?.time, events[1].time);
+  assert.equal(pastHigh.state, 'High');
+  assert.equal(pastHigh.previousHigh?.time, events[1].time);
+  assert.equal(pastHigh.nextHigh, null);
+});
+
+test('curve attaches nearby observations and their residuals', () => {
+  const begin = events[0].timestamp;
+  const observations = [
+    { timestamp: begin + 3 * HOUR_MS + 6 * MINUTE_MS, height: 2.5 },
+    { timestamp: begin + 5 * HOUR_MS, height: 9.9 }, // Between curve points
+  ];
+  const curve = buildTideCurve(events, begin, begin + 4 * HOUR_MS, HOUR_MS, observations);
+
+  assert.equal(curve.length, 5);
+  assert.deepEqual(curve.map(p => p.observed), [null, null, null, 2.5, null]);
+  assert.ok(Math.abs(curve[3].residual! - (2.5 - curve[3].height)) < 1e-9);
+  assert.equal(curve[4].residual, null);
+});
+
+test('local days follow the spot time zone', () => {
+  const start = startOfLocalDay('2025-06-01', 'America/New_York');
+
+  assert.equal(new Date(start).toISOString(), '2025-06-01T04:00:00.000Z');
+  assert.equal(localDateString(start - MINUTE_MS, 'America/New_York'), '2025-05-31');
+  assert.equal(new Date(startOfLocalDay('2025-01-15', 'America/New_York')).toISOString(), '2025-01-15T05:00:00.000Z');
+  assert.throws(() => startOfLocalDay('June 1', 'America/New_York'), RangeError);
+  // Days that don't exist aren't rolled over into the next month
+  assert.throws(() => startOfLocalDay('2025-02-31', 'America/New_York'), /2025-02-31/);
+  assert.throws(() => startOfLocalDay('2025-13-01', 'America/New_York'), RangeError);
+  assert.throws(() => startOfLocalDay('2025-06-00', 'America/New_York'), RangeError);
+  assert.equal(new Date(startOfLocalDay('2024-02-29', 'UTC')).toISOString(), '2024-02-29T00:00:00.000Z');
+});
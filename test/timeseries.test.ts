@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HOUR_MS, MINUTE_MS } from '../src/time.js';
+import { HourlySeries, fromOpenMeteoHourly, mergeSeries, nearestPoint } from '../src/timeseries.js';
+
+const start = Date.UTC(2025, 5, 1, 0);
+const at = (hours: number) => start + hours * HOUR_MS;
+
+// Marine runs 0-2h with a gap at 1h; weather runs 1-3h and is a minute off the hour
+const marine: HourlySeries = {
+  source: 'marine',
+  times: [at(0), at(1), at(2)],
+  fields: { wave_height: [1.2, null, 1.4], wave_period: [9, 9, NaN] },
+};
+const weather: HourlySeries = {
+  source: 'weather',
+  times: [at(1), at(2), at(3)].map(time => time + MINUTE_MS),
+  fields: { wind_speed: [10, 12, 14] },
+};
+
+test('joins series on their timestamps and covers every horizon', () => {
+  const merged = mergeSeries([marine, weather]);
+
+  assert.deepEqual(merged.map(point => point.time), [0, 1, 2, 3].map(h => new Date(at(h)).toISOString()));
+  assert.deepEqual(merged[2].values, { wave_height: 1.4, wave_period: null, wind_speed: 12 });
+  assert.deepEqual(merged[2].sources, { wave_height: 'marine', wind_speed: 'weather' });
+});
+
+test('lists the fields each hour is missing', () => {
+  const merged = mergeSeries([marine, weather]);
+
+  assert.deepEqual(merged.map(point => point.missing), [
+    ['wind_speed'],
+    ['wave_height'],
+    ['wave_period'],
+    ['wave_height', 'wave_period'],
+  ]);
+  assert.equal(merged[3].values.wave_height, null);
+});
+
+test('the first series with a value wins, later ones fill its gaps', () => {
+  const backup: HourlySeries = { source: 'backup', times: [at(0), at(1)], fields: { wave_height: [2, 2] } };
+  const merged = mergeSeries([marine, backup]);
+
+  assert.deepEqual(merged.map(point => [point.values.wave_height, point.sources.wave_height]), [
+    [1.2, 'marine'],
+    [2, 'backup'],
+    [1.4, 'marine'],
+  ]);
+});
+
+test('a missing Open-Meteo block still declares its fields', () => {
+  const down = fromOpenMeteoHourly('marine', undefined, { wave_height: 'wave_height' });
+  const merged = mergeSeries([weather, down]);
+
+  assert.deepEqual(down, { source: 'marine', times: [], fields: { wave_height: [] } });
+  assert.ok(merged.every(point => point.missing.includes('wave_height')));
+  assert.deepEqual(
+    fromOpenMeteoHourly('weather', { time: [start / 1000], wind_speed_10m: [8] }, { wind_speed: 'wind_speed_10m' }),
+    { source: 'weather', times: [start], fields: { wind_speed: [8] } }
+  );
+});
+
+test('finds the nearest point within the tolerance', () => {
+  const merged = mergeSeries([marine]);
+
+  assert.equal(nearestPoint(merged, new Date(at(1) + 20 * MINUTE_MS))?.time, new Date(at(1)).toISOString());
+  assert.equal(nearestPoint(merged, new Date(at(5))), null);
+  assert.equal(nearestPoint([], new Date(start)), null);
+});
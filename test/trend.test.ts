@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parseSpectralFile, SpectralObservation } from '../src/ndbc.js';
+import { analyzeBuoyTrend, slopePerHour, classifyTrend } from '../src/trend.js';
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const HOUR = 60 * 60 * 1000;
+const now = Date.UTC(2025, 4, 27, 12);
+
+const observation = (hoursAgo: number, fields: Partial<SpectralObservation>): SpectralObservation => {
+  const timestamp = now - hoursAgo * HOUR;
+  return {
+    time: new Date(timestamp).toISOString(),
+    timestamp,
+    waveHeightM: null,
+    swellHeightM: null,
+    swellPeriodSec: null,
+    swellDirectionDeg: null,
+    windWaveHeightM: null,
+    windWavePeriodSec: null,
+    windWaveDirectionDeg: null,
+    steepness: null,
+    averagePeriodSec: null,
+    meanWaveDirectionDeg: null,
+    ...fields,
+  };
+};
+
+test('slope is computed per hour by least squares', () => {
+  const slope = slopePerHour([
+    { timestamp: 0, value: 1 },
+    { timestamp: HOUR, value: 2 },
+    { timestamp: 2 * HOUR, value: 3 },
+  ]);
+  assert.equal(slope, 1);
+  assert.equal(slopePerHour([{ timestamp: 0, value: 1 }]), null);
+});
+
+test('classifies slopes against a steady threshold', () => {
+  assert.equal(classifyTrend(0.2, 0.05), 'building');
+  assert.equal(classifyTrend(0.01, 0.05), 'steady');
+  assert.equal(classifyTrend(-0.2, 0.05), 'dropping');
+  assert.equal(classifyTrend(null, 0.05), 'unknown');
+});
+
+test('a rising buoy file reads as building with the peak time', () => {
+  const observations = parseSpectralFile(fs.readFileSync(path.join(fixturesDir, '41117.spec'), 'utf8'));
+  const trend = analyzeBuoyTrend(observations, 24, Date.parse('2025-05-27T16:00:00Z'));
+
+  assert.equal(trend.observations.length, 8);
+  assert.equal(trend.observations[0].time, '2025-05-27T12:00:00.000Z');
+  assert.equal(trend.waveHeight.trend, 'building');
+  assert.ok(trend.waveHeight.slopePerHour! > 0.2);
+  assert.equal(trend.waveHeight.peak?.time, '2025-05-27T15:00:00.000Z');
+  assert.equal(trend.wavePeriod.trend, 'building');
+  assert.equal(trend.direction.trend, 'veering');
+});
+
+test('only observations inside the window are used', () => {
+  const trend = analyzeBuoyTrend([
+    observation(0, { waveHeightM: 1 }),
+    observation(10, { waveHeightM: 1 }),
+    observation(30, { waveHeightM: 3 }),
+  ], 24, now);
+
+  assert.equal(trend.observations.length, 2);
+  assert.equal(trend.waveHeight.trend, 'steady');
+  assert.equal(trend.waveHeight.peak?.value, 3.28084);
+});
+
+test('direction trend unwraps through north', () => {
+  const trend = analyzeBuoyTrend([
+    observation(0, { meanWaveDirectionDeg: 20 }),
+    observation(2, { meanWaveDirectionDeg: 0 }),
+    observation(4, { meanWaveDirectionDeg: 340 }),
+  ], 24, now);
+
+  assert.equal(trend.direction.slopePerHour, 10);
+  assert.equal(trend.direction.trend, 'veering');
+  assert.equal(trend.direction.latest, 20);
+});
+
+test('the window ends now, so a buoy that stopped reporting is stale', () => {
+  const observations = [observation(6, { waveHeightM: 1 }), observation(8, { waveHeightM: 2 }), observation(10, { waveHeightM: 3 })];
+  const current = analyzeBuoyTrend(observations, 24, now - 6 * HOUR);
+  const silent = analyzeBuoyTrend(observations, 3, now);
+
+  assert.equal(current.stale, false);
+  assert.equal(current.ageMinutes, 0);
+  assert.equal(current.waveHeight.trend, 'dropping');
+  assert.equal(silent.stale, true);
+  assert.equal(silent.ageMinutes, 360);
+  assert.equal(silent.latestObservedAt, new Date(now - 6 * HOUR).toISOString());
+  assert.deepEqual(silent.observations, []);
+  assert.equal(silent.waveHeight.trend, 'unknown');
+});
+
+test('observations after now are ignored', () => {
+  const trend = analyzeBuoyTrend([observation(-1, { waveHeightM: 5 }), observation(1, { waveHeightM: 1 })], 24, now);
+
+  assert.equal(trend.observations.length, 1);
+  assert.equal(trend.waveHeight.latest, 3.28084);
+});
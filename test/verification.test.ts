@@ -0,0 +1,149 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createArchive } from '../src/archive.js';
+import { scoreHourlyForecasts } from '../src/forecast.js';
+import { SpectralObservation } from '../src/ndbc.js';
+import { DEFAULT_PROFILE } from '../src/profiles.js';
+import { getSpot } from '../src/spots.js';
+import { DAY_MS, HOUR_MS, MINUTE_MS } from '../src/time.js';
+import { buildVerificationReport } from '../src/verification.js';
+import { forecastHour, steadyTide } from './helpers.js';
+
+const issuedAt = Date.UTC(2025, 5, 1, 12);
+const staugustine = { latitude: 29.8947, longitude: -81.3145 };
+const tide = steadyTide();
+
+// A forecast of 1 m at 10 s for the next `count` hours
+function forecastHours(count: number) {
+  const forecasts = Array.from({ length: count }, (_, i) => forecastHour(issuedAt + i * HOUR_MS));
+  return scoreHourlyForecasts(forecasts, tide, DEFAULT_PROFILE, staugustine);
+}
+
+function observation(timestamp: number, heightM: number, periodSec: number, directionDeg = 90): SpectralObservation {
+  return {
+    time: new Date(timestamp).toISOString(),
+    timestamp,
+    waveHeightM: heightM,
+    swellHeightM: null,
+    swellPeriodSec: periodSec,
+    swellDirectionDeg: directionDeg,
+    windWaveHeightM: null,
+    windWavePeriodSec: null,
+    windWaveDirectionDeg: null,
+    steepness: null,
+    averagePeriodSec: null,
+    meanWaveDirectionDeg: directionDeg,
+  };
+}
+
+async function withArchive(run: (dir: string) => Promise<void>) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'surfability-archive-'));
+  try {
+    await run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// The archive's clock is stopped when the forecast was issued
+const openArchive = (dir: string, now = issuedAt) => createArchive(dir, { now: () => now });
+
+test('archive keeps one forecast per hour and skips repeated observations', () => withArchive(async dir => {
+  const archive = await openArchive(dir);
+  const observations = [observation(issuedAt, 1, 10), observation(issuedAt + 30 * MINUTE_MS, 1, 10)];
+
+  assert.equal(await archive.recordForecast('st-augustine', 'default', '41117', forecastHours(3), issuedAt), 3);
+  assert.equal(await archive.recordForecast('st-augustine', 'default', '41117', forecastHours(3), issuedAt + 20 * MINUTE_MS), 0);
+  assert.equal(await archive.recordBuoyObservations('41117', observations), 2);
+  assert.equal(await archive.recordBuoyObservations('41117', observations), 0);
+
+  // A fresh archive on the same directory sees what was written
+  const reopened = await openArchive(dir);
+  assert.equal(reopened.forecasts('st-augustine').length, 3);
+  assert.equal(await reopened.recordBuoyObservations('41117', observations), 0);
+  assert.equal(reopened.buoyObservations('41117').length, 2);
+}));
+
+test('archive drops records older than the retention period', () => withArchive(async dir => {
+  const archive = await openArchive(dir);
+  await archive.recordForecast('st-augustine', 'default', '41117', forecastHours(3), issuedAt);
+  await archive.recordBuoyObservations('41117', [observation(issuedAt, 1, 10)]);
+
+  // A month and a day later both have expired, and the files are rewritten without them
+  const later = issuedAt + 31 * DAY_MS;
+  const reopened = await openArchive(dir, later);
+  assert.deepEqual(reopened.forecasts('st-augustine'), []);
+  assert.deepEqual(reopened.buoyObservations('41117'), []);
+  assert.equal(fs.readFileSync(path.join(dir, 'forecasts.jsonl'), 'utf8'), '');
+
+  // Expired observations in a fresh buoy file aren't archived again
+  const observations = [observation(issuedAt, 1, 10), observation(later - HOUR_MS, 1, 10)];
+  assert.equal(await reopened.recordBuoyObservations('41117', observations), 1);
+}));
+
+test('verification reports bias, MAE and surfable hit rate by lead time', () => withArchive(async dir => {
+  const archive = await openArchive(dir);
+  await archive.recordForecast('st-augustine', 'default', '41117', forecastHours(14), issuedAt);
+  await archive.recordBuoyObservations('41117', [
+    // Near term: the buoy reads 0.1 m lower and 1 s shorter than forecast
+    observation(issuedAt + 10 * MINUTE_MS, 0.9, 9),
+    observation(issuedAt + HOUR_MS, 0.9, 9),
+    // Twelve hours out it has gone flat, with a short southerly wind swell
+    observation(issuedAt + 12 * HOUR_MS, 0.3, 4, 190),
+    observation(issuedAt + 13 * HOUR_MS - 20 * MINUTE_MS, 0.3, 4, 190),
+  ]);
+
+  const report = buildVerificationReport(getSpot('st-augustine')!, archive.forecasts('st-augustine'), archive.buoyObservations('41117'), issuedAt + 14 * HOUR_MS);
+  const [nearTerm, , halfDay] = report.buckets;
+
+  assert.equal(report.verifiedHours, 4);
+  assert.equal(report.unmatchedHours, 10);
+
+  assert.equal(nearTerm.count, 2);
+  assert.ok(Math.abs(nearTerm.waveHeightFt.bias! - 0.328) < 0.001);
+  assert.equal(nearTerm.wavePeriodSec.bias, 1);
+  assert.equal(nearTerm.surfableHitRate, 1);
+
+  assert.equal(halfDay.count, 2);
+  assert.ok(halfDay.waveHeightFt.mae! > 2);
+  assert.ok(halfDay.score.bias! > 20);
+  assert.equal(halfDay.surfableHitRate, 0);
+}));
+
+test('a gusty hour scored on the breaking height verifies with no score error when the buoy agrees', () => withArchive(async dir => {
+  const archive = await openArchive(dir);
+  // No built-in spot has a nearshore transformation, so give one to St. Augustine
+  const spot = { ...getSpot('st-augustine')!, nearshore: { beachNormalDeg: 90 } };
+  // 1 m at 10 s with a 10 km/h offshore breeze gusting to 50 km/h
+  const gusty = [forecastHour(issuedAt, { wind_gust: 50 })];
+  const [scored] = scoreHourlyForecasts(gusty, tide, DEFAULT_PROFILE, spot);
+  await archive.recordForecast(spot.id, 'default', spot.buoyStation, [scored], issuedAt);
+
+  const [archived] = archive.forecasts(spot.id);
+  assert.notEqual(archived.breakingHeightFt, undefined);
+  assert.ok(archived.windGustKts! > 25);
+  assert.ok(scored.result!.breakdown.find(factor => factor.factor === 'wind')!.reason.includes('gusty'));
+
+  await archive.recordBuoyObservations(spot.buoyStation, [observation(issuedAt, 1, 10)]);
+  const report = buildVerificationReport(spot, archive.forecasts(spot.id), archive.buoyObservations(spot.buoyStation), issuedAt + HOUR_MS);
+  assert.equal(report.buckets[0].count, 1);
+  assert.equal(report.buckets[0].score.mae, 0);
+}));
+
+test('an hour under a thunderstorm is unsurfable on both sides of the comparison', () => withArchive(async dir => {
+  const archive = await openArchive(dir);
+  const stormy = scoreHourlyForecasts([forecastHour(issuedAt, { weather_code: 95 })], tide, DEFAULT_PROFILE, staugustine);
+  await archive.recordForecast('st-augustine', 'default', '41117', stormy, issuedAt);
+  await archive.recordBuoyObservations('41117', [observation(issuedAt, 1, 10)]);
+
+  const [archived] = archive.forecasts('st-augustine');
+  assert.equal(archived.weatherCode, 95);
+  assert.equal(archived.surfable, false);
+
+  const report = buildVerificationReport(getSpot('st-augustine')!, archive.forecasts('st-augustine'), archive.buoyObservations('41117'), issuedAt + HOUR_MS);
+  assert.equal(report.buckets[0].count, 1);
+  assert.equal(report.buckets[0].surfableHitRate, 1);
+}));
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getConditionsDuration, scoreHourlyForecasts } from '../src/forecast.js';
+import { DEFAULT_PROFILE } from '../src/profiles.js';
+import { rateScore } from '../src/scoring.js';
+import { HOUR_MS } from '../src/time.js';
+import { VOCABULARY_PACKS, getVocabulary, phraseSeed, pickPhrase, vocabularyForLanguage, vocabularyLanguages } from '../src/vocabulary.js';
+import { forecastHour, steadyTide } from './helpers.js';
+
+const hour = Date.UTC(2025, 5, 1, 14);
+const tide = steadyTide();
+
+test('every pack has phrases for every rating and flat days', () => {
+  for (const pack of Object.values(VOCABULARY_PACKS)) {
+    for (const phrases of Object.values(pack.ratings)) assert.ok(phrases.length > 0, pack.id);
+    assert.ok(pack.flatMessages.length > 0, pack.id);
+  }
+});
+
+test('phrases are stable within an hour and vary across spots and hours', () => {
+  const phrases = VOCABULARY_PACKS.slang.ratings.poor;
+  const pick = (spotId: string, at: number) => pickPhrase(phrases, phraseSeed(spotId, at));
+
+  assert.equal(phraseSeed('st-augustine', hour + 59 * 60_000), phraseSeed('st-augustine', hour));
+  assert.equal(pick('st-augustine', hour + 30 * 60_000), pick('st-augustine', hour));
+  const picks = new Set(Array.from({ length: 24 }, (_, i) => pick('st-augustine', hour + i * HOUR_MS)));
+  assert.ok(picks.size > 1);
+  assert.notEqual(phraseSeed('st-augustine', hour), phraseSeed('other', hour));
+});
+
+test('the fun rating comes from the chosen pack', () => {
+  const seed = phraseSeed('st-augustine', hour);
+
+  assert.ok(VOCABULARY_PACKS.es.ratings.excellent.includes(rateScore(90, DEFAULT_PROFILE, { vocabulary: VOCABULARY_PACKS.es, seed }).funRating));
+  assert.equal(rateScore(50, DEFAULT_PROFILE, { vocabulary: VOCABULARY_PACKS['no-slang'], seed }).funRating, 'Marginal');
+  // Without phrasing the default pack is used, still deterministically
+  assert.equal(rateScore(20).funRating, rateScore(20).funRating);
+  assert.ok(VOCABULARY_PACKS.slang.ratings.poor.includes(rateScore(20).funRating));
+});
+
+test('flat days get a message from the chosen pack', () => {
+  const forecasts = Array.from({ length: 6 }, (_, i) =>
+    forecastHour(hour + i * HOUR_MS, { wave_height: 0.1, wave_period: 4, wind_speed: 40, wind_direction: 90 }));
+  const scored = scoreHourlyForecasts(forecasts, tide, DEFAULT_PROFILE, { latitude: 29.8947, longitude: -81.3145 });
+  const now = new Date(hour);
+  const seed = phraseSeed('st-augustine', hour);
+
+  const family = getConditionsDuration(scored, DEFAULT_PROFILE, now, { vocabulary: VOCABULARY_PACKS.family, seed });
+  assert.ok(VOCABULARY_PACKS.family.flatMessages.includes(family));
+  assert.equal(getConditionsDuration(scored, DEFAULT_PROFILE, now, { vocabulary: VOCABULARY_PACKS.family, seed }), family);
+  assert.equal(getConditionsDuration(scored, DEFAULT_PROFILE, now), getConditionsDuration(scored, DEFAULT_PROFILE, now));
+});
+
+test('finds packs by id and language', () => {
+  assert.equal(getVocabulary('family')?.name, 'Family-friendly');
+  assert.equal(getVocabulary('toString'), undefined);
+  assert.deepEqual(vocabularyLanguages(), ['en', 'es']);
+  assert.equal(vocabularyForLanguage('en').id, 'slang');
+  assert.equal(vocabularyForLanguage('es').id, 'es');
+  assert.equal(vocabularyForLanguage('fr').id, 'slang');
+});
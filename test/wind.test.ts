@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HourlyForecast, scoreHourlyForecasts } from '../src/forecast.js';
+import { DEFAULT_PROFILE, buildProfile } from '../src/profiles.js';
+import { SurfData, scoreFactors } from '../src/scoring.js';
+import { HOUR_MS } from '../src/time.js';
+import { findWindEvents, windComponents } from '../src/wind.js';
+import { forecastHour, steadyTide } from './helpers.js';
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} !== ${expected}`);
+
+const data: SurfData = {
+  waveHeight: 3,
+  wavePeriod: 10,
+  swellDirection: 90,
+  windDirection: 270,
+  windSpeed: 10,
+  tide: 'Mid',
+};
+const wind = (surfData: SurfData, profile = DEFAULT_PROFILE) => scoreFactors(surfData, profile).find(f => f.factor === 'wind')!;
+
+test('resolves wind into onshore and cross-shore components', () => {
+  // An east-facing beach
+  const onshore = windComponents(10, 90, 90);
+  close(onshore.onshoreKts, 10);
+  close(onshore.crossShoreKts, 0);
+
+  const offshore = windComponents(10, 270, 90);
+  close(offshore.onshoreKts, -10);
+
+  const sideshore = windComponents(10, 0, 90);
+  close(sideshore.onshoreKts, 0);
+  close(sideshore.crossShoreKts, 10);
+});
+
+test('offshore is relative to the way the beach faces', () => {
+  // Southwest is straight offshore for a beach facing ENE; south is only cross-offshore
+  const eastNortheast = buildProfile({ id: 'ene', name: 'ENE', beachFacingDeg: 60 });
+  const southwest = { ...data, windDirection: 240 };
+
+  assert.equal(wind(data).points, 20);
+  assert.equal(wind(southwest, eastNortheast).points, 20);
+  assert.equal(wind(data, eastNortheast).points, 20);
+  assert.equal(wind({ ...data, windDirection: 180 }, eastNortheast).points, 10);
+});
+
+test('cross-shore wind chops the surface less than onshore wind', () => {
+  const cross = wind({ ...data, windDirection: 0, windSpeed: 14 });
+  const onshore = wind({ ...data, windDirection: 90, windSpeed: 14 });
+
+  assert.equal(cross.points, 10);
+  assert.match(cross.reason, /cross-shore/);
+  assert.equal(onshore.points, 0);
+  assert.deepEqual(onshore.value, { speed_kts: 14, direction_deg: 90, onshore_kts: 14, cross_shore_kts: 0 });
+});
+
+test('gusty offshore wind is penalized', () => {
+  const steady = wind({ ...data, windGust: 14 });
+  const gusty = wind({ ...data, windGust: 22 });
+
+  assert.equal(steady.points, 20);
+  assert.equal(gusty.points, 15);
+  assert.equal(gusty.reason, '10.0 kts offshore from 270° is gusty (gusts to 22 kts)');
+});
+
+// A June day in St. Augustine from 6 AM local: glassy until 10, then the sea
+// breeze builds from the east
+const start = Date.UTC(2025, 5, 1, 10);
+const tide = steadyTide();
+const hour = (hours: number, windDirection: number, windSpeedKmh: number, windGustKmh: number | null = null) =>
+  forecastHour(start + hours * HOUR_MS, { wind_direction: windDirection, wind_speed: windSpeedKmh, wind_gust: windGustKmh });
+const events = (forecasts: HourlyForecast[]) =>
+  findWindEvents(scoreHourlyForecasts(forecasts, tide, DEFAULT_PROFILE, { latitude: 29.9, longitude: -81.3 }), DEFAULT_PROFILE, 'America/New_York');
+
+test('finds the glassy morning and the sea breeze onset', () => {
+  const found = events([
+    hour(0, 250, 5), hour(1, 260, 8), hour(2, 270, 12), hour(3, 270, 15), // calm, then light offshore
+    hour(4, 120, 10), hour(5, 100, 14), hour(6, 90, 20), hour(7, 90, 25), // turning onshore and building
+  ]);
+
+  assert.deepEqual(found.map(e => [e.type, new Date(e.start).toISOString(), e.end && new Date(e.end).toISOString()]), [
+    ['glassy_morning', '2025-06-01T10:00:00.000Z', '2025-06-01T14:00:00.000Z'],
+    ['sea_breeze_onset', '2025-06-01T16:00:00.000Z', null],
+  ]);
+  assert.equal(found[0].description, 'Glassy from 6:00 AM to 10:00 AM');
+  assert.equal(found[1].description, 'Sea breeze sets in around 12:00 PM (11 kts onshore)');
+});
+
+test('gusty offshore mornings are not glassy and all-day onshore wind has no onset', () => {
+  const gusty = events([hour(0, 270, 15, 40), hour(1, 270, 15, 40)]);
+  const onshore = events([hour(2, 90, 25), hour(3, 90, 25), hour(4, 90, 30)]);
+
+  assert.deepEqual(gusty, []);
+  assert.deepEqual(onshore, []);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HourlyForecast, scoreHourlyForecasts } from '../src/forecast.js';
+import { DEFAULT_PROFILE } from '../src/profiles.js';
+import { HOUR_MS } from '../src/time.js';
+import { findBestWindows } from '../src/windows.js';
+import { forecastHour, steadyTide } from './helpers.js';
+
+const start = Date.UTC(2025, 5, 1, 11); // 7 AM in Florida
+const staugustine = { latitude: 29.8947, longitude: -81.3145 };
+
+const tide = steadyTide();
+
+// Chest-high 10 s swell; wind direction and speed vary by hour
+const hour = (hours: number, windDirection: number, windSpeedKmh = 15) =>
+  forecastHour(start + hours * HOUR_MS, { wind_direction: windDirection, wind_speed: windSpeedKmh });
+
+const score = (forecasts: HourlyForecast[]) => scoreHourlyForecasts(forecasts, tide, DEFAULT_PROFILE, staugustine);
+
+test('windows are contiguous, ranked, and say what ends them', () => {
+  const scored = score([
+    // 7-10 AM offshore, then the sea breeze comes in at 11
+    hour(0, 270), hour(1, 270), hour(2, 270), hour(3, 270), hour(4, 90, 25), hour(5, 90, 25),
+    // A shorter, weaker window in the afternoon
+    hour(6, 90, 12), hour(7, 90, 12), hour(8, 90, 25),
+  ]);
+  const windows = findBestWindows(scored, { minScore: 85, minHours: 2 }, DEFAULT_PROFILE, 'America/New_York');
+
+  assert.equal(windows.length, 2);
+  assert.equal(new Date(windows[0].start).toISOString(), '2025-06-01T11:00:00.000Z');
+  assert.equal(new Date(windows[0].end).toISOString(), '2025-06-01T15:00:00.000Z');
+  assert.equal(windows[0].hours.length, 4);
+  assert.equal(windows[0].peakScore, 100);
+  assert.deepEqual(windows[0].tidePhases, ['Mid']);
+  assert.equal(windows[0].limitingFactors[0], 'wind turns onshore at 11:00 AM');
+
+  assert.ok(windows[1].averageScore < windows[0].averageScore);
+  assert.equal(windows[1].limitingFactors[0], 'wind picks up to 13 kts at 3:00 PM');
+  assert.ok(windows[1].limitingFactors.some(f => /kts onshore from 90° is a light breeze \(-10 pts\)/.test(f)));
+});
+
+test('short runs, dark hours and gaps do not make windows', () => {
+  const scored = score([hour(0, 270), hour(1, 90, 25), hour(2, 270), hour(4, 270), hour(14, 270), hour(15, 270)]);
+
+  // 9 PM onwards is dark in June
+  assert.equal(scored[4].daylight, false);
+  assert.deepEqual(findBestWindows(scored, { minScore: 85, minHours: 2 }, DEFAULT_PROFILE, 'America/New_York'), []);
+  assert.equal(findBestWindows(scored, { minScore: 85, minHours: 1 }, DEFAULT_PROFILE, 'America/New_York').length, 3);
+});
+
+test('a window ending on wave height reports the height that was scored', () => {
+  const nearshore = { ...staugustine, nearshore: { beachNormalDeg: 90 } };
+  const scored = scoreHourlyForecasts([
+    hour(0, 270), hour(1, 270), hour(2, 270),
+    forecastHour(start + 3 * HOUR_MS, { wind_direction: 270, wind_speed: 15, wave_height: 0.15 }),
+  ], tide, DEFAULT_PROFILE, nearshore);
+  const [window] = findBestWindows(scored, { minScore: 85, minHours: 2 }, DEFAULT_PROFILE, 'America/New_York');
+
+  const breaking = scored[3].surfData!.breakingHeight!;
+  assert.notEqual(breaking.toFixed(1), scored[3].surfData!.waveHeight.toFixed(1));
+  assert.equal(window.limitingFactors[0], `waves drop to ${breaking.toFixed(1)} ft at 10:00 AM`);
+});